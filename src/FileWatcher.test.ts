@@ -0,0 +1,126 @@
+import {
+    afterEach,
+    beforeEach,
+    describe,
+    expect,
+    it,
+    jest,
+} from '@jest/globals';
+import { mkdir, mkdtemp, rename, rm, symlink, writeFile } from 'fs/promises';
+import { FileWatcher } from './FileWatcher';
+import path from 'path';
+import { tmpdir } from 'os';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('FileWatcher', () => {
+    let directory: string;
+    let watcher: FileWatcher | undefined;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'zod-figure-'));
+    });
+    afterEach(async () => {
+        watcher?.stop();
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    const watchFile = (filePath: string, onChange: () => void) => {
+        watcher = new FileWatcher({
+            paths: [filePath],
+            onChange,
+            debounceMs: 20,
+        });
+        watcher.start();
+    };
+
+    it('should call onChange when the file content changes', async () => {
+        const filePath = path.join(directory, 'config.json');
+        await writeFile(filePath, '{ "port": 3000 }');
+        const onChange = jest.fn();
+        watchFile(filePath, onChange);
+        await writeFile(filePath, '{ "port": 4000 }');
+        await wait(200);
+        expect(onChange).toBeCalledTimes(1);
+    });
+
+    it('should not call onChange when the file content did not change', async () => {
+        const filePath = path.join(directory, 'config.json');
+        await writeFile(filePath, '{ "port": 3000 }');
+        const onChange = jest.fn();
+        watchFile(filePath, onChange);
+        await writeFile(filePath, '{ "port": 3000 }');
+        await writeFile(path.join(directory, 'other.json'), '{}');
+        await wait(200);
+        expect(onChange).not.toBeCalled();
+    });
+
+    it('should debounce multiple changes', async () => {
+        const filePath = path.join(directory, 'config.json');
+        await writeFile(filePath, '{ "port": 3000 }');
+        const onChange = jest.fn();
+        watchFile(filePath, onChange);
+        await writeFile(filePath, '{ "port": 4000 }');
+        await writeFile(filePath, '{ "port": 5000 }');
+        await wait(200);
+        expect(onChange).toBeCalledTimes(1);
+    });
+
+    it('should detect files replaced by an atomic rename', async () => {
+        const filePath = path.join(directory, 'config.json');
+        await writeFile(filePath, '{ "port": 3000 }');
+        const onChange = jest.fn();
+        watchFile(filePath, onChange);
+        const temporaryPath = path.join(directory, 'config.json.tmp');
+        await writeFile(temporaryPath, '{ "port": 4000 }');
+        await rename(temporaryPath, filePath);
+        await wait(200);
+        expect(onChange).toBeCalledTimes(1);
+    });
+
+    it('should detect symlink swaps', async () => {
+        // Mimics the layout of a Kubernetes ConfigMap volume.
+        await mkdir(path.join(directory, '..v1'));
+        await mkdir(path.join(directory, '..v2'));
+        await writeFile(path.join(directory, '..v1/config.json'), '{}');
+        await writeFile(
+            path.join(directory, '..v2/config.json'),
+            '{ "port": 4000 }',
+        );
+        await symlink('..v1', path.join(directory, '..data'));
+        const filePath = path.join(directory, 'config.json');
+        await symlink('..data/config.json', filePath);
+        const onChange = jest.fn();
+        watchFile(filePath, onChange);
+        await symlink('..v2', path.join(directory, '..data_tmp'));
+        await rename(
+            path.join(directory, '..data_tmp'),
+            path.join(directory, '..data'),
+        );
+        await wait(200);
+        expect(onChange).toBeCalledTimes(1);
+    });
+
+    it('should detect files added to or removed from a watched directory', async () => {
+        await writeFile(path.join(directory, '10-base.json'), '{}');
+        const onChange = jest.fn();
+        watchFile(directory, onChange);
+        await writeFile(path.join(directory, '20-override.json'), '{}');
+        await wait(200);
+        expect(onChange).toBeCalledTimes(1);
+        await rm(path.join(directory, '20-override.json'));
+        await wait(200);
+        expect(onChange).toBeCalledTimes(2);
+    });
+
+    it('should stop watching', async () => {
+        const filePath = path.join(directory, 'config.json');
+        await writeFile(filePath, '{ "port": 3000 }');
+        const onChange = jest.fn();
+        watchFile(filePath, onChange);
+        watcher?.stop();
+        await writeFile(filePath, '{ "port": 4000 }');
+        await wait(200);
+        expect(onChange).not.toBeCalled();
+    });
+});
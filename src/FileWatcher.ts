@@ -0,0 +1,166 @@
+import {
+    type FSWatcher,
+    readFileSync,
+    readdirSync,
+    realpathSync,
+    statSync,
+    watch,
+} from 'fs';
+import { dirname, join, resolve } from 'path';
+import { Logger } from './Logger';
+import { createHash } from 'crypto';
+
+/**
+ * Watches files for changes using filesystem notifications.
+ * The directories containing the files are watched instead of the files themselves, so atomic renames by editors and
+ * symlink swaps (e.g. Kubernetes ConfigMap volumes) are detected. Changes are debounced, and the callback is only
+ * called when the content of a file actually changed.
+ * Directories are watched themselves as well, so files added to or removed from them are detected.
+ */
+export class FileWatcher {
+    private logger: Logger;
+    private paths: string[];
+    private debounceMs: number;
+    private onChange: () => void;
+    private watchers = new Map<string, FSWatcher>();
+    private signatures = new Map<string, string>();
+    private debounceTimeout: NodeJS.Timeout | null = null;
+
+    constructor({
+        paths,
+        onChange,
+        debounceMs = 100,
+        logger,
+    }: {
+        paths: string[];
+        onChange: () => void;
+        debounceMs?: number | undefined;
+        logger?: Logger | undefined;
+    }) {
+        this.paths = paths.map((path) => resolve(path));
+        this.onChange = onChange;
+        this.debounceMs = debounceMs;
+        this.logger = logger ?? new Logger({});
+    }
+
+    /**
+     * The absolute paths of the watched files.
+     * @returns The watched paths.
+     */
+    public get watchedPaths(): string[] {
+        return [...this.paths];
+    }
+
+    /**
+     * Starts watching the files.
+     */
+    public start(): void {
+        for (const path of this.paths) {
+            const signature = this.getSignature(path);
+            if (signature) this.signatures.set(path, signature);
+        }
+        this.updateWatchers();
+    }
+
+    /**
+     * Stops watching the files.
+     */
+    public stop(): void {
+        if (this.debounceTimeout) clearTimeout(this.debounceTimeout);
+        this.debounceTimeout = null;
+        for (const watcher of this.watchers.values()) watcher.close();
+        this.watchers.clear();
+    }
+
+    // Resolve the directories to watch. When a file is a symlink, the directory of its target is watched as well.
+    private getDirectories(): Set<string> {
+        const directories = new Set<string>();
+        for (const path of this.paths) {
+            directories.add(dirname(path));
+            if (this.isDirectory(path)) directories.add(path);
+            try {
+                directories.add(dirname(realpathSync(path)));
+            } catch {
+                // The file does not exist (yet), only its directory is watched.
+            }
+        }
+        return directories;
+    }
+
+    private updateWatchers(): void {
+        const directories = this.getDirectories();
+        for (const [directory, watcher] of this.watchers) {
+            if (directories.has(directory)) continue;
+            watcher.close();
+            this.watchers.delete(directory);
+        }
+        for (const directory of directories) {
+            if (this.watchers.has(directory)) continue;
+            try {
+                const watcher = watch(directory, () => this.scheduleCheck());
+                watcher.on('error', () => {
+                    this.logger.log(
+                        `Could not watch directory ${directory}.`,
+                        'error',
+                    );
+                });
+                this.watchers.set(directory, watcher);
+            } catch {
+                this.logger.log(
+                    `Could not watch directory ${directory}.`,
+                    'error',
+                );
+            }
+        }
+    }
+
+    private scheduleCheck(): void {
+        if (this.debounceTimeout) clearTimeout(this.debounceTimeout);
+        this.debounceTimeout = setTimeout(() => {
+            this.debounceTimeout = null;
+            this.check();
+        }, this.debounceMs);
+    }
+
+    private check(): void {
+        let changed = false;
+        for (const path of this.paths) {
+            const signature = this.getSignature(path);
+            // A missing file is likely being replaced, wait until it is written.
+            if (!signature || signature === this.signatures.get(path)) continue;
+            this.signatures.set(path, signature);
+            this.logger.log(`Detected change in file ${path}.`, 'fileChanged');
+            changed = true;
+        }
+        // Symlinks might point to a new location after a swap.
+        this.updateWatchers();
+        if (changed) this.onChange();
+    }
+
+    private getSignature(path: string): string | null {
+        try {
+            const hash = createHash('sha1');
+            if (!this.isDirectory(path)) {
+                return hash.update(readFileSync(path)).digest('hex');
+            }
+            // The signature of a directory covers the names and contents of its files, hidden files are skipped.
+            for (const name of readdirSync(path).sort()) {
+                const filePath = join(path, name);
+                if (name.startsWith('.') || this.isDirectory(filePath))
+                    continue;
+                hash.update(name).update('\0').update(readFileSync(filePath));
+            }
+            return hash.digest('hex');
+        } catch {
+            return null;
+        }
+    }
+
+    private isDirectory(path: string): boolean {
+        try {
+            return statSync(path).isDirectory();
+        } catch {
+            return false;
+        }
+    }
+}
@@ -1,4 +1,6 @@
-type LogLevels = 'silent' | 'debug' | 'info' | 'error';
+import { redactMessage } from './redact';
+
+type LogLevels = 'silent' | 'debug' | 'info' | 'warn' | 'error';
 export type LogFunction = (message: string, level: LogLevels) => void;
 type InternalLogMethod = (message: string, event: LogEvents) => void;
 type LogEvents =
@@ -12,8 +14,15 @@ type LogEvents =
     | 'error'
     | 'runListeners'
     | 'registeredListener'
+    | 'removedListener'
     | 'adapterSet'
-    | 'compiledEnvSchema';
+    | 'compiledEnvSchema'
+    | 'startWatching'
+    | 'stopWatching'
+    | 'fileChanged'
+    | 'reloadError'
+    | 'listenerError'
+    | 'deprecatedEnv';
 export type LogLevelsMap = Record<LogEvents, LogLevels>;
 const defaultLogLevels: LogLevelsMap = {
     // debug
@@ -23,19 +32,28 @@ const defaultLogLevels: LogLevelsMap = {
     startReloadInterval: 'debug',
     stopReloadInterval: 'debug',
     registeredListener: 'debug',
+    removedListener: 'debug',
     compiledEnvSchema: 'debug',
+    startWatching: 'debug',
+    stopWatching: 'debug',
+    fileChanged: 'debug',
     // info
     compiledSchema: 'info',
     load: 'info',
     reload: 'info',
     adapterSet: 'info',
+    // warn
+    deprecatedEnv: 'warn',
     // error
     error: 'error',
+    reloadError: 'error',
+    listenerError: 'error',
 };
 
 export class Logger {
     private logMethod?: LogFunction;
     private logLevelMap = defaultLogLevels;
+    private secretValues: string[] = [];
     private getLogLevel(event: LogEvents): LogLevels {
         return this.logLevelMap[event];
     }
@@ -66,6 +84,15 @@ export class Logger {
      */
     public log: InternalLogMethod = (message, event) => {
         const logLevel = this.getLogLevel(event);
-        if (this.logMethod) this.logMethod(message, logLevel);
+        if (this.logMethod)
+            this.logMethod(redactMessage(message, this.secretValues), logLevel);
     };
+
+    /**
+     * Set the secret values that are redacted from every logged message.
+     * @param secretValues The secret values.
+     */
+    public setSecretValues(secretValues: string[]): void {
+        this.secretValues = secretValues;
+    }
 }
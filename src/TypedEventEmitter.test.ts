@@ -0,0 +1,77 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { Logger } from './Logger';
+import { TypedEventEmitter } from './TypedEventEmitter';
+
+type Events = {
+    message: (text: string, count: number) => void;
+    done: () => void;
+};
+
+describe('TypedEventEmitter', () => {
+    it('should call handlers with the emitted arguments', () => {
+        const emitter = new TypedEventEmitter<Events>();
+        const handler = jest.fn();
+        emitter.on('message', handler);
+        emitter.emit('message', 'hello', 1);
+        emitter.emit('message', 'world', 2);
+        expect(handler).toHaveBeenNthCalledWith(1, 'hello', 1);
+        expect(handler).toHaveBeenNthCalledWith(2, 'world', 2);
+    });
+
+    it('should only call handlers for the emitted event', () => {
+        const emitter = new TypedEventEmitter<Events>();
+        const handler = jest.fn();
+        emitter.on('done', handler);
+        emitter.emit('message', 'hello', 1);
+        expect(handler).not.toBeCalled();
+    });
+
+    it('should call once handlers only once', () => {
+        const emitter = new TypedEventEmitter<Events>();
+        const handler = jest.fn();
+        emitter.once('done', handler);
+        emitter.emit('done');
+        emitter.emit('done');
+        expect(handler).toBeCalledTimes(1);
+    });
+
+    it('should remove handlers using off', () => {
+        const emitter = new TypedEventEmitter<Events>();
+        const handler = jest.fn();
+        emitter.on('done', handler);
+        emitter.once('done', handler);
+        emitter.off('done', handler);
+        emitter.emit('done');
+        expect(handler).not.toBeCalled();
+    });
+
+    it('should remove handlers using the returned function', () => {
+        const emitter = new TypedEventEmitter<Events>();
+        const handler = jest.fn();
+        const otherHandler = jest.fn();
+        const remove = emitter.on('done', handler);
+        emitter.on('done', otherHandler);
+        remove();
+        emitter.emit('done');
+        expect(handler).not.toBeCalled();
+        expect(otherHandler).toBeCalledTimes(1);
+    });
+
+    it('should log errors thrown by handlers and call the remaining handlers', () => {
+        const logMethod = jest.fn();
+        const emitter = new TypedEventEmitter<Events>({
+            logger: new Logger({ logger: logMethod }),
+        });
+        const handler = jest.fn();
+        emitter.on('done', () => {
+            throw new Error('Handler failed');
+        });
+        emitter.on('done', handler);
+        emitter.emit('done');
+        expect(handler).toBeCalledTimes(1);
+        expect(logMethod).toBeCalledWith(
+            'Handler for event done threw an error: Handler failed',
+            'error',
+        );
+    });
+});
@@ -0,0 +1,85 @@
+import { Logger } from './Logger';
+
+// Maps event names to the signature of their handlers.
+type EventMap<T> = { [K in keyof T]: (...args: never[]) => void };
+type HandlerEntry<H> = { handler: H; once: boolean };
+
+/**
+ * A minimal event emitter where event names and handler signatures are typed by an event map.
+ * Errors thrown by handlers are logged, so a failing handler does not affect other handlers or the emitter.
+ */
+export class TypedEventEmitter<T extends EventMap<T>> {
+    private logger: Logger;
+    private handlers: { [K in keyof T]?: HandlerEntry<T[K]>[] } = {};
+
+    constructor({ logger }: { logger?: Logger | undefined } = {}) {
+        this.logger = logger ?? new Logger({});
+    }
+
+    /**
+     * Registers a handler for an event.
+     * @param event The event to handle.
+     * @param handler The function to call when the event is emitted.
+     * @returns A function that removes the handler.
+     */
+    public on<K extends keyof T>(event: K, handler: T[K]): () => void {
+        return this.addHandler(event, { handler, once: false });
+    }
+
+    /**
+     * Registers a handler for an event, which is removed after it has been called once.
+     * @param event The event to handle.
+     * @param handler The function to call when the event is emitted.
+     * @returns A function that removes the handler.
+     */
+    public once<K extends keyof T>(event: K, handler: T[K]): () => void {
+        return this.addHandler(event, { handler, once: true });
+    }
+
+    /**
+     * Removes a handler for an event.
+     * @param event The event the handler was registered for.
+     * @param handler The handler to remove.
+     */
+    public off<K extends keyof T>(event: K, handler: T[K]): void {
+        this.handlers[event] = this.handlers[event]?.filter(
+            (entry) => entry.handler !== handler,
+        );
+    }
+
+    /**
+     * Calls all handlers registered for an event.
+     * @param event The event to emit.
+     * @param args The arguments to call the handlers with.
+     */
+    public emit<K extends keyof T>(event: K, ...args: Parameters<T[K]>): void {
+        const entries = this.handlers[event];
+        if (!entries?.length) return;
+        this.handlers[event] = entries.filter((entry) => !entry.once);
+
+        for (const { handler } of entries) {
+            try {
+                handler(...args);
+            } catch (error) {
+                const reason =
+                    error instanceof Error ? error.message : String(error);
+                this.logger.log(
+                    `Handler for event ${String(event)} threw an error: ${reason}`,
+                    'error',
+                );
+            }
+        }
+    }
+
+    private addHandler<K extends keyof T>(
+        event: K,
+        entry: HandlerEntry<T[K]>,
+    ): () => void {
+        this.handlers[event] = [...(this.handlers[event] ?? []), entry];
+        return () => {
+            this.handlers[event] = this.handlers[event]?.filter(
+                (existing) => existing !== entry,
+            );
+        };
+    }
+}
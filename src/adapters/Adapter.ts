@@ -1,9 +1,27 @@
 import { Logger } from '../Logger';
+import type { SourcePosition } from '../codeFrame';
 
 export type ObjectOrFileRef = Record<string, unknown> | string;
 
+// Matches the scheme of URLs such as `https://`, but not Windows drive letters such as `C:\`.
+const SCHEME = /^([a-z][a-z\d+.-]*):\/\//i;
+
+/**
+ * Retrieves the scheme of a URL, e.g. `https` for `https://example.com/config.json`.
+ * @param source The source to retrieve the scheme from.
+ * @returns The lower case scheme, or null when the source is not a URL.
+ */
+export const getScheme = (source: string): string | null =>
+    SCHEME.exec(source)?.[1]?.toLowerCase() ?? null;
+
 export abstract class Adapter {
     protected logger: Logger;
+    // File extensions handled by this adapter, including the leading dot, e.g. `.json`.
+    public readonly extensions: readonly string[] = [];
+    // URL schemes handled by this adapter, without the colon, e.g. `https`.
+    public readonly schemes: readonly string[] = [];
+    // MIME types handled by this adapter, e.g. `application/json`.
+    public readonly mimeTypes: readonly string[] = [];
 
     constructor({ logger }: { logger?: Logger | undefined } = {}) {
         if (logger) {
@@ -20,4 +38,46 @@ export abstract class Adapter {
     abstract loadSync(
         objectOrFileRef: ObjectOrFileRef,
     ): Record<string, unknown>;
+    /**
+     * Finds the position of the value at a path in a source, so validation errors can point at the offending key.
+     * @param objectOrFileRef The source the value was loaded from.
+     * @param path The path of the value.
+     * @returns The position of the value, or of its closest parent when the value is missing.
+     */
+    locate?(
+        objectOrFileRef: ObjectOrFileRef,
+        path: PropertyKey[],
+    ): SourcePosition | undefined;
+
+    /**
+     * Determines whether this adapter can load a source.
+     * URLs are matched by their scheme, file paths by their extension. When a MIME type is supplied, it is matched instead.
+     * Adapters that don't declare any extensions, schemes or MIME types can load every source.
+     * @param objectOrFileRef The source to load.
+     * @param mimeType The MIME type of the source, when known.
+     * @returns Whether this adapter can load the source.
+     */
+    public canHandle(
+        objectOrFileRef: ObjectOrFileRef,
+        mimeType?: string,
+    ): boolean {
+        if (
+            !this.extensions.length &&
+            !this.schemes.length &&
+            !this.mimeTypes.length
+        ) {
+            return true;
+        }
+        if (mimeType !== undefined) {
+            // Ignore parameters such as the charset.
+            const essence = mimeType.split(';')[0]?.trim().toLowerCase() ?? '';
+            return this.mimeTypes.includes(essence);
+        }
+        if (typeof objectOrFileRef !== 'string') return false;
+
+        const scheme = getScheme(objectOrFileRef);
+        if (scheme) return this.schemes.includes(scheme);
+        const path = objectOrFileRef.toLowerCase();
+        return this.extensions.some((extension) => path.endsWith(extension));
+    }
 }
@@ -0,0 +1,76 @@
+import { Adapter, type ObjectOrFileRef } from './Adapter';
+import { describe, expect, it } from '@jest/globals';
+import { AdapterError } from '../errors';
+import { AdapterRegistry } from './AdapterRegistry';
+import { JsonAdapter } from './JsonAdapter';
+import { ObjectAdapter } from './ObjectAdapter';
+import { YamlAdapter } from './YamlAdapter';
+
+class HttpAdapter extends Adapter {
+    public override readonly schemes = ['http', 'https'];
+
+    public load(source: ObjectOrFileRef): Promise<Record<string, unknown>> {
+        return Promise.resolve(this.loadSync(source));
+    }
+    public loadSync(source: ObjectOrFileRef): Record<string, unknown> {
+        return { source };
+    }
+}
+
+describe('AdapterRegistry', () => {
+    it('should resolve adapters by extension, scheme and MIME type', () => {
+        const json = new JsonAdapter();
+        const yaml = new YamlAdapter();
+        const http = new HttpAdapter();
+        const object = new ObjectAdapter();
+        const registry = new AdapterRegistry({
+            adapters: [json, yaml, http, object],
+        });
+        expect(registry.resolve('config.json')).toBe(json);
+        expect(registry.resolve('CONFIG.YML')).toBe(yaml);
+        expect(registry.resolve('https://example.com/config.json')).toBe(http);
+        expect(registry.resolve({})).toBe(object);
+        expect(
+            registry.resolve('config', 'application/yaml; charset=utf-8'),
+        ).toBe(yaml);
+        expect(registry.find('C:\\config.json')).toBe(json);
+    });
+
+    it('should prefer adapters registered later and adapters of the registry over its parents', () => {
+        const parent = new AdapterRegistry({ adapters: [new JsonAdapter()] });
+        const registry = new AdapterRegistry({ parents: [parent] });
+        const json = new JsonAdapter();
+        registry.register(json);
+        expect(registry.resolve('config.json')).toBe(json);
+        const override = new JsonAdapter();
+        registry.register(override);
+        expect(registry.resolve('config.json')).toBe(override);
+        registry.unregister(override);
+        registry.unregister(json);
+        expect(registry.resolve('config.json')).toBe(parent.entries[0]);
+    });
+
+    it('should use adapters without declarations for every source', () => {
+        class CatchAllAdapter extends HttpAdapter {
+            public override readonly schemes = [];
+        }
+        const catchAll = new CatchAllAdapter();
+        const registry = new AdapterRegistry({ adapters: [catchAll] });
+        expect(registry.resolve('config.unknown')).toBe(catchAll);
+        expect(registry.resolve({})).toBe(catchAll);
+    });
+
+    it('should list the adapters that were tried when no adapter can handle a source', () => {
+        const registry = new AdapterRegistry({
+            adapters: [new HttpAdapter(), new JsonAdapter()],
+        });
+        expect(() => registry.resolve('config.txt')).toThrow(
+            new AdapterError(
+                'No adapter can handle config.txt. Tried: JsonAdapter (.json, application/json), HttpAdapter (http://, https://).',
+            ),
+        );
+        expect(() => new AdapterRegistry().resolve({})).toThrow(
+            new AdapterError('No adapter can handle object. Tried: none.'),
+        );
+    });
+});
@@ -0,0 +1,103 @@
+import type { Adapter, ObjectOrFileRef } from './Adapter';
+import { AdapterError } from '../errors';
+
+const describeSource = (source: ObjectOrFileRef, mimeType?: string): string => {
+    const description = typeof source === 'string' ? source : 'object';
+    return mimeType ? `${description} (${mimeType})` : description;
+};
+
+const describeAdapter = (adapter: Adapter): string => {
+    const handles = [
+        ...adapter.extensions,
+        ...adapter.schemes.map((scheme) => `${scheme}://`),
+        ...adapter.mimeTypes,
+    ];
+    return handles.length
+        ? `${adapter.constructor.name} (${handles.join(', ')})`
+        : adapter.constructor.name;
+};
+
+/**
+ * An ordered list of adapters, used to find the adapter that loads a source.
+ * Adapters registered later take precedence over adapters registered earlier, and adapters of this registry take
+ * precedence over adapters of its parents.
+ */
+export class AdapterRegistry {
+    /**
+     * Adapters available to every ZodConfig instance, e.g. to support a custom file format everywhere.
+     */
+    public static readonly global = new AdapterRegistry();
+
+    private adapters: Adapter[] = [];
+    private parents: AdapterRegistry[];
+
+    constructor({
+        adapters = [],
+        parents = [],
+    }: {
+        adapters?: Adapter[];
+        parents?: AdapterRegistry[];
+    } = {}) {
+        this.parents = parents;
+        for (const adapter of adapters) this.register(adapter);
+    }
+
+    /**
+     * All adapters, in order of precedence.
+     * @returns The adapters of this registry, followed by the adapters of its parents.
+     */
+    public get entries(): Adapter[] {
+        return [
+            ...this.adapters,
+            ...this.parents.flatMap((parent) => parent.entries),
+        ];
+    }
+
+    /**
+     * Registers an adapter, which takes precedence over the adapters registered before it.
+     * @param adapter The adapter to register.
+     */
+    public register(adapter: Adapter): void {
+        this.adapters.unshift(adapter);
+    }
+
+    /**
+     * Removes a registered adapter.
+     * @param adapter The adapter to remove.
+     */
+    public unregister(adapter: Adapter): void {
+        this.adapters = this.adapters.filter((entry) => entry !== adapter);
+    }
+
+    /**
+     * Finds the adapter that loads a source.
+     * @param source The source to load.
+     * @param mimeType The MIME type of the source, when known.
+     * @returns The first adapter that can handle the source, or undefined if no adapter can.
+     */
+    public find(
+        source: ObjectOrFileRef,
+        mimeType?: string,
+    ): Adapter | undefined {
+        return this.entries.find((adapter) =>
+            adapter.canHandle(source, mimeType),
+        );
+    }
+
+    /**
+     * Finds the adapter that loads a source.
+     * @param source The source to load.
+     * @param mimeType The MIME type of the source, when known.
+     * @returns The first adapter that can handle the source.
+     * @throws {AdapterError} When no adapter can handle the source. The message lists every adapter that was tried.
+     */
+    public resolve(source: ObjectOrFileRef, mimeType?: string): Adapter {
+        const adapter = this.find(source, mimeType);
+        if (adapter) return adapter;
+
+        const tried = this.entries.map(describeAdapter).join(', ') || 'none';
+        throw new AdapterError(
+            `No adapter can handle ${describeSource(source, mimeType)}. Tried: ${tried}.`,
+        );
+    }
+}
@@ -0,0 +1,126 @@
+import { AdapterError, ReadError } from '../errors';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'fs/promises';
+import { AdapterRegistry } from './AdapterRegistry';
+import { DirectoryAdapter } from './DirectoryAdapter';
+import { JsonAdapter } from './JsonAdapter';
+import path from 'path';
+import { tmpdir } from 'os';
+
+describe('DirectoryAdapter', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'zod-figure-'));
+        await writeFile(
+            path.join(directory, '10-base.yaml'),
+            'port: 3000\ndb:\n  host: localhost\n  pool: 5\n',
+        );
+        await writeFile(
+            path.join(directory, '20-db.json'),
+            '{ "db": { "host": "db.example.com" } }',
+        );
+    });
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should merge every file in lexical order async', async () => {
+        const adapter = new DirectoryAdapter();
+        expect(await adapter.load(directory)).toEqual({
+            port: 3000,
+            db: { host: 'db.example.com', pool: 5 },
+        });
+    });
+    it('should merge every file in lexical order sync', () => {
+        const adapter = new DirectoryAdapter();
+        expect(adapter.loadSync(directory)).toEqual({
+            port: 3000,
+            db: { host: 'db.example.com', pool: 5 },
+        });
+    });
+
+    it('should assign the values of every file to the key matching its file name', async () => {
+        await writeFile(path.join(directory, 'cache.toml'), 'ttl = 60\n');
+        const adapter = new DirectoryAdapter({ fileNameKeys: true });
+        expect(await adapter.load(directory)).toEqual({
+            base: { port: 3000, db: { host: 'localhost', pool: 5 } },
+            cache: { ttl: 60 },
+            db: { db: { host: 'db.example.com' } },
+        });
+    });
+
+    it('should create nested keys for dots in file names', async () => {
+        const adapter = new DirectoryAdapter({ fileNameKeys: true });
+        const filePath = path.join(directory, '30-db.primary.json');
+        await writeFile(filePath, '{ "port": 5432 }');
+        expect(adapter.loadFilesSync(directory).at(-1)).toEqual({
+            path: filePath,
+            key: 'db.primary',
+            adapter: expect.any(JsonAdapter),
+            values: { db: { primary: { port: 5432 } } },
+        });
+    });
+
+    it('should apply merge rules', () => {
+        const adapter = new DirectoryAdapter({
+            mergeRules: { db: 'replace' },
+        });
+        expect(adapter.loadSync(directory)).toEqual({
+            port: 3000,
+            db: { host: 'db.example.com' },
+        });
+    });
+
+    it('should skip hidden files, directories and unsupported files', async () => {
+        await writeFile(path.join(directory, '.30-hidden.json'), '{ "a": 1 }');
+        await writeFile(path.join(directory, 'README.md'), '# Config');
+        await mkdir(path.join(directory, '40-nested.json'));
+        await mkdir(path.join(directory, '..data'));
+        await symlink('..data', path.join(directory, '50-linked'));
+        const adapter = new DirectoryAdapter();
+        expect(
+            adapter
+                .loadFragmentsSync(directory)
+                .map((fragment) => path.basename(fragment.path)),
+        ).toEqual(['10-base.yaml', '20-db.json']);
+        expect(await adapter.load(directory)).toEqual({
+            port: 3000,
+            db: { host: 'db.example.com', pool: 5 },
+        });
+    });
+
+    it('should only load files supported by the registry', () => {
+        const adapter = new DirectoryAdapter({
+            registry: new AdapterRegistry({ adapters: [new JsonAdapter()] }),
+        });
+        expect(adapter.loadSync(directory)).toEqual({
+            db: { host: 'db.example.com' },
+        });
+    });
+
+    it('should only handle directories', () => {
+        const adapter = new DirectoryAdapter();
+        expect(adapter.canHandle(directory)).toBe(true);
+        expect(adapter.canHandle(path.join(directory, '20-db.json'))).toBe(
+            false,
+        );
+        expect(adapter.canHandle(path.join(directory, 'missing'))).toBe(false);
+        expect(adapter.canHandle({})).toBe(false);
+    });
+
+    it('should throw ReadError when the directory does not exist', async () => {
+        const adapter = new DirectoryAdapter();
+        await expect(
+            adapter.load(path.join(directory, 'missing')),
+        ).rejects.toThrow(ReadError);
+        expect(() => adapter.loadSync(path.join(directory, 'missing'))).toThrow(
+            ReadError,
+        );
+    });
+
+    it('should throw AdapterError for objects', () => {
+        const adapter = new DirectoryAdapter();
+        expect(() => adapter.loadSync({})).toThrow(AdapterError);
+    });
+});
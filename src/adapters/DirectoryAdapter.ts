@@ -0,0 +1,198 @@
+import { Adapter, type ObjectOrFileRef } from './Adapter';
+import { type MergeRules, mergeDeep } from '../merge';
+import { basename, extname, join } from 'path';
+import {
+    getDirectoryPath,
+    isDirectorySource,
+    readFileNames,
+    readFileNamesSync,
+} from '../directory';
+import { AdapterRegistry } from './AdapterRegistry';
+import { IniAdapter } from './IniAdapter';
+import { Json5Adapter } from './Json5Adapter';
+import { JsonAdapter } from './JsonAdapter';
+import type { Logger } from '../Logger';
+import { PropertiesAdapter } from './PropertiesAdapter';
+import { TomlAdapter } from './TomlAdapter';
+import { YamlAdapter } from './YamlAdapter';
+import { setPath } from '../paths';
+
+/**
+ * A file in a configuration directory, together with the adapter that loads it.
+ */
+export type DirectoryFragment = {
+    // The path of the file.
+    path: string;
+    // The dot separated path the values of the file are assigned to, or null when they are merged at the top level.
+    key: string | null;
+    adapter: Adapter;
+};
+
+/**
+ * A file in a configuration directory, together with the values loaded from it.
+ */
+export type DirectoryFile = DirectoryFragment & {
+    // The values of the file, assigned to its key when file names are mapped to keys.
+    values: Record<string, unknown>;
+};
+
+/**
+ * Loads a configuration directory, such as a `conf.d` folder, by deep merging every supported file in it.
+ * Files are merged in lexical order of their names, so later files take precedence, e.g. `10-base.yaml` is overridden
+ * by `20-production.json`. Hidden files, subdirectories and files no adapter can load are skipped.
+ */
+export class DirectoryAdapter extends Adapter {
+    private registry: AdapterRegistry;
+    private fileNameKeys: boolean;
+    private mergeRules: MergeRules;
+
+    constructor({
+        logger,
+        registry,
+        fileNameKeys = false,
+        mergeRules = {},
+    }: {
+        logger?: Logger;
+        // The adapters used to load the files. Defaults to the standard file adapters.
+        registry?: AdapterRegistry;
+        // Assign the values of every file to the key matching its file name, e.g. `20-db.yaml` to `db`. Dots in the
+        // file name create nested keys, e.g. `20-db.primary.yaml` supplies `db.primary`.
+        fileNameKeys?: boolean;
+        mergeRules?: MergeRules;
+    } = {}) {
+        super({ logger });
+        const options = logger ? { logger } : {};
+        this.registry =
+            registry ??
+            new AdapterRegistry({
+                adapters: [
+                    new JsonAdapter(options),
+                    new Json5Adapter(options),
+                    new YamlAdapter(options),
+                    new TomlAdapter(options),
+                    new IniAdapter(options),
+                    new PropertiesAdapter(options),
+                ],
+            });
+        this.fileNameKeys = fileNameKeys;
+        this.mergeRules = mergeRules;
+    }
+
+    public override canHandle(
+        objectOrFileRef: ObjectOrFileRef,
+        mimeType?: string,
+    ): boolean {
+        return isDirectorySource(objectOrFileRef, mimeType);
+    }
+
+    public async load(path: ObjectOrFileRef): Promise<Record<string, unknown>> {
+        return this.mergeFiles(
+            await this.loadFiles(getDirectoryPath(path, this.logger)),
+        );
+    }
+    public loadSync(path: ObjectOrFileRef): Record<string, unknown> {
+        return this.mergeFiles(
+            this.loadFilesSync(getDirectoryPath(path, this.logger)),
+        );
+    }
+
+    /**
+     * Loads every file of a directory separately, so the origin of each value can be traced back to its file.
+     * @param directory The path of the directory.
+     * @returns The files and their values, in the order in which they are merged.
+     */
+    public async loadFiles(directory: string): Promise<DirectoryFile[]> {
+        const fragments = await this.loadFragments(directory);
+        return Promise.all(
+            fragments.map(async (fragment) => ({
+                ...fragment,
+                values: this.toValues(
+                    fragment,
+                    await fragment.adapter.load(fragment.path),
+                ),
+            })),
+        );
+    }
+    /**
+     * Loads every file of a directory separately and synchronously.
+     * @param directory The path of the directory.
+     * @returns The files and their values, in the order in which they are merged.
+     */
+    public loadFilesSync(directory: string): DirectoryFile[] {
+        return this.loadFragmentsSync(directory).map((fragment) => ({
+            ...fragment,
+            values: this.toValues(
+                fragment,
+                fragment.adapter.loadSync(fragment.path),
+            ),
+        }));
+    }
+
+    /**
+     * Lists the files of a directory that are loaded.
+     * @param directory The path of the directory.
+     * @returns The files, in the order in which they are merged.
+     */
+    public async loadFragments(
+        directory: string,
+    ): Promise<DirectoryFragment[]> {
+        return this.getFragments(
+            directory,
+            await readFileNames(directory, this.logger),
+        );
+    }
+    /**
+     * Lists the files of a directory that are loaded synchronously.
+     * @param directory The path of the directory.
+     * @returns The files, in the order in which they are merged.
+     */
+    public loadFragmentsSync(directory: string): DirectoryFragment[] {
+        return this.getFragments(
+            directory,
+            readFileNamesSync(directory, this.logger),
+        );
+    }
+
+    private getFragments(
+        directory: string,
+        fileNames: string[],
+    ): DirectoryFragment[] {
+        return fileNames.flatMap((fileName) => {
+            const path = join(directory, fileName);
+            const adapter = this.registry.find(path);
+            // Skip nested directories behind symlinks, and files such as READMEs.
+            if (!adapter || adapter instanceof DirectoryAdapter) return [];
+            return [
+                {
+                    path,
+                    key: this.fileNameKeys ? this.toKey(fileName) : null,
+                    adapter,
+                },
+            ];
+        });
+    }
+
+    // Strip the extension and an ordering prefix such as `20-`. Remaining dots separate nested keys.
+    private toKey(fileName: string): string {
+        return basename(fileName, extname(fileName)).replace(/^\d+[-_.]/, '');
+    }
+
+    // Empty files parse to null, they don't supply any values.
+    private toValues(
+        { key }: DirectoryFragment,
+        values: Record<string, unknown> | null,
+    ): Record<string, unknown> {
+        return key === null ? (values ?? {}) : setPath({}, key, values ?? {});
+    }
+
+    private mergeFiles(files: DirectoryFile[]): Record<string, unknown> {
+        return files.reduce<Record<string, unknown>>(
+            (merged, { values }) =>
+                mergeDeep(merged, values, this.mergeRules) as Record<
+                    string,
+                    unknown
+                >,
+            {},
+        );
+    }
+}
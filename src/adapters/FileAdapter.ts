@@ -1,5 +1,6 @@
 import { Adapter, type ObjectOrFileRef } from './Adapter';
-import { AdapterError, ReadError } from '../errors';
+import { AdapterError, ParseError, ReadError } from '../errors';
+import { type SourcePosition, createCodeFrame } from '../codeFrame';
 import type { Logger } from '../Logger';
 import { readFile } from 'fs/promises';
 import { readFileSync } from 'fs';
@@ -18,24 +19,102 @@ export abstract class FileAdapter extends Adapter {
         this.encoding = encoding;
     }
 
-    protected abstract parseFile(fileContent: string): Record<string, unknown>;
+    protected abstract parseFile(
+        fileContent: string,
+        filePath?: string,
+    ): Record<string, unknown>;
+    /**
+     * Finds the position of the value at a path in the content of a file.
+     * @param fileContent The content of the file.
+     * @param path The path of the value.
+     * @returns The position of the value, or of its closest parent when the value is missing.
+     */
+    protected locateInFile?(
+        fileContent: string,
+        path: PropertyKey[],
+    ): SourcePosition | undefined;
 
     public async load(path: ObjectOrFileRef): Promise<Record<string, unknown>> {
         if (typeof path !== 'string') {
             this.logger.log('Adapter cannot handle this input type.', 'error');
             throw new AdapterError();
         }
-        return this.parseFile(await this.readFile(path));
+        return this.parseFile(await this.readFile(path), path);
     }
     public loadSync(path: ObjectOrFileRef): Record<string, unknown> {
         if (typeof path !== 'string') {
             this.logger.log('Adapter cannot handle this input type.', 'error');
             throw new AdapterError();
         }
-        return this.parseFile(this.readFileSync(path));
+        return this.parseFile(this.readFileSync(path), path);
     }
 
-    private async readFile(path: string): Promise<string> {
+    public override locate(
+        objectOrFileRef: ObjectOrFileRef,
+        path: PropertyKey[],
+    ): SourcePosition | undefined {
+        if (typeof objectOrFileRef !== 'string' || !this.locateInFile) {
+            return undefined;
+        }
+        // The file is read again, so locating values doesn't require keeping the content of every loaded file.
+        try {
+            const fileContent = readFileSync(objectOrFileRef, {
+                encoding: this.encoding,
+            });
+            return this.locateInFile(fileContent, path);
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Creates a ParseError describing where parsing a file failed, including a code frame when the line is known.
+     * @param format The name of the file format, e.g. `JSON`.
+     * @param fileContent The content of the file.
+     * @param options Details of the error.
+     * @param options.filePath The path of the file, when known.
+     * @param options.reason The description of the error given by the parser.
+     * @param options.line The line of the error, starting at 1.
+     * @param options.column The column of the error, starting at 1.
+     * @param options.cause The error thrown by the parser.
+     * @returns The ParseError.
+     */
+    protected createParseError(
+        format: string,
+        fileContent: string,
+        {
+            filePath,
+            reason,
+            line,
+            column,
+            cause,
+        }: {
+            filePath?: string | undefined;
+            reason?: string | undefined;
+            line?: number | undefined;
+            column?: number | undefined;
+            cause?: unknown;
+        },
+    ): ParseError {
+        let message = `Could not parse ${format} file`;
+        if (filePath) message += ` ${filePath}`;
+        if (line !== undefined && column !== undefined) {
+            message += ` at line ${line}, column ${column}`;
+        }
+        message += reason ? `: ${reason.replace(/\.$/, '')}.` : '.';
+        return new ParseError(message, {
+            filePath,
+            line,
+            column,
+            cause,
+            codeFrame:
+                line !== undefined
+                    ? createCodeFrame(fileContent, { line, column })
+                    : undefined,
+        });
+    }
+
+    protected async readFile(path: string): Promise<string> {
         try {
             return await readFile(path, { encoding: this.encoding });
         } catch {
@@ -43,7 +122,7 @@ export abstract class FileAdapter extends Adapter {
             throw new ReadError(`Could not read file at ${path}.`);
         }
     }
-    private readFileSync(path: string): string {
+    protected readFileSync(path: string): string {
         try {
             return readFileSync(path, { encoding: this.encoding });
         } catch {
@@ -0,0 +1,29 @@
+import { describe, expect, it } from '@jest/globals';
+import { IniAdapter } from './IniAdapter';
+import { ParseError } from '../errors';
+import path from 'path';
+
+describe('IniAdapter', () => {
+    const testFilePath = path.resolve(
+        __dirname,
+        '../../tests/fixtures/test-config.ini',
+    );
+
+    it('should load a INI file async', async () => {
+        const adapter = new IniAdapter();
+        const result = await adapter.load(testFilePath);
+        expect(result).toEqual({ port: '3000', host: 'localhost' });
+    });
+    it('should load a INI file sync', () => {
+        const adapter = new IniAdapter();
+        const result = adapter.loadSync(testFilePath);
+        expect(result).toEqual({ port: '3000', host: 'localhost' });
+    });
+
+    it('should throw a ParseError when loading an invalid INI file', () => {
+        const adapter = new IniAdapter();
+        expect(() => adapter['parseFile']('db=a\ndb.host=b')).toThrow(
+            ParseError,
+        );
+    });
+});
@@ -0,0 +1,36 @@
+import { FileAdapter } from './FileAdapter';
+import type { Logger } from '../Logger';
+import { ParseError } from '../errors';
+import { parseIni } from '../ini';
+
+export class IniAdapter extends FileAdapter {
+    public override readonly extensions = ['.ini'];
+
+    constructor({
+        encoding = 'utf-8',
+        logger,
+    }: {
+        encoding?: BufferEncoding;
+        logger?: Logger;
+    } = {}) {
+        super({ encoding, logger });
+    }
+
+    protected parseFile(
+        fileContent: string,
+        filePath?: string,
+    ): Record<string, unknown> {
+        try {
+            return parseIni(fileContent);
+        } catch (error) {
+            this.logger.log('Could not parse INI.', 'error');
+            throw this.createParseError('INI', fileContent, {
+                filePath,
+                reason: error instanceof Error ? error.message : String(error),
+                // The reason already mentions the line, but not the column.
+                line: error instanceof ParseError ? error.line : undefined,
+                cause: error,
+            });
+        }
+    }
+}
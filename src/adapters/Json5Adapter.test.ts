@@ -0,0 +1,36 @@
+import { describe, expect, it } from '@jest/globals';
+import { Json5Adapter } from './Json5Adapter';
+import path from 'path';
+
+describe('Json5Adapter', () => {
+    const testFilePath = path.resolve(
+        __dirname,
+        '../../tests/fixtures/test-config.jsonc',
+    );
+
+    it('should load a JSONC file async', async () => {
+        const adapter = new Json5Adapter();
+        const result = await adapter.load(testFilePath);
+        expect(result).toEqual({ port: 3000, host: 'localhost' });
+    });
+    it('should load a JSONC file sync', () => {
+        const adapter = new Json5Adapter();
+        const result = adapter.loadSync(testFilePath);
+        expect(result).toEqual({ port: 3000, host: 'localhost' });
+    });
+
+    it('should parse unquoted keys, single quoted strings and trailing commas', () => {
+        const adapter = new Json5Adapter();
+        const result = adapter['parseFile'](
+            "{ host: 'localhost', ports: [8000, 8001,], }",
+        );
+        expect(result).toEqual({ host: 'localhost', ports: [8000, 8001] });
+    });
+
+    it('should throw a ParseError with the position of invalid JSON5', () => {
+        const adapter = new Json5Adapter();
+        expect(() => adapter['parseFile']('{\n    port: x\n}')).toThrow(
+            "Could not parse JSON5 file at line 2, column 11: invalid character 'x'.",
+        );
+    });
+});
@@ -0,0 +1,59 @@
+import { FileAdapter } from './FileAdapter';
+import JSON5 from 'json5';
+import type { Logger } from '../Logger';
+
+// JSON5 adds the position of syntax errors to the error and its message.
+type Json5SyntaxError = SyntaxError & {
+    lineNumber: number;
+    columnNumber: number;
+};
+
+const isJson5SyntaxError = (error: unknown): error is Json5SyntaxError =>
+    error instanceof SyntaxError &&
+    'lineNumber' in error &&
+    'columnNumber' in error;
+
+/**
+ * Loads JSON5 files, which also covers JSONC files. Both allow comments and trailing commas, JSON5 also allows
+ * unquoted keys, single quoted strings and more.
+ */
+export class Json5Adapter extends FileAdapter {
+    public override readonly extensions = ['.json5', '.jsonc'];
+    public override readonly mimeTypes = ['application/json5'];
+
+    constructor({
+        encoding = 'utf-8',
+        logger,
+    }: {
+        encoding?: BufferEncoding;
+        logger?: Logger;
+    } = {}) {
+        super({ encoding, logger });
+    }
+
+    protected parseFile(
+        fileContent: string,
+        filePath?: string,
+    ): Record<string, unknown> {
+        try {
+            return JSON5.parse(fileContent);
+        } catch (error) {
+            this.logger.log('Could not parse JSON5.', 'error');
+            if (!isJson5SyntaxError(error)) {
+                throw this.createParseError('JSON5', fileContent, {
+                    filePath,
+                    cause: error,
+                });
+            }
+            throw this.createParseError('JSON5', fileContent, {
+                filePath,
+                reason: error.message
+                    .replace(/^JSON5: /, '')
+                    .replace(/ at \d+:\d+$/, ''),
+                line: error.lineNumber,
+                column: error.columnNumber,
+                cause: error,
+            });
+        }
+    }
+}
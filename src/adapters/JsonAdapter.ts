@@ -1,9 +1,41 @@
+import { type SourcePosition, getPosition } from '../codeFrame';
 import { FileAdapter } from './FileAdapter';
+import JSON5 from 'json5';
 import type { Logger } from '../Logger';
-import { ParseError } from '../errors';
-import { jsonParser } from '../parseJson';
+import { locateYamlPath } from './YamlAdapter';
+
+const getJsonErrorPosition = (
+    content: string,
+    error: unknown,
+): SourcePosition | undefined => {
+    const message = error instanceof Error ? error.message : '';
+    const [, offset] = / at position (\d+)/.exec(message) ?? [];
+    if (offset !== undefined) return getPosition(content, Number(offset));
+    if (message === 'Unexpected end of JSON input') {
+        return getPosition(content, content.length);
+    }
+    // Not every message includes the position. JSON5 rejects the same tokens and reports their position.
+    try {
+        JSON5.parse(content);
+    } catch (json5Error) {
+        if (
+            json5Error instanceof SyntaxError &&
+            'lineNumber' in json5Error &&
+            'columnNumber' in json5Error
+        ) {
+            return {
+                line: Number(json5Error.lineNumber),
+                column: Number(json5Error.columnNumber),
+            };
+        }
+    }
+    return undefined;
+};
 
 export class JsonAdapter extends FileAdapter {
+    public override readonly extensions = ['.json'];
+    public override readonly mimeTypes = ['application/json'];
+
     constructor({
         encoding = 'utf-8',
         logger,
@@ -14,12 +46,34 @@ export class JsonAdapter extends FileAdapter {
         super({ encoding, logger });
     }
 
-    protected parseFile(fileContent: string): Record<string, unknown> {
-        const parsedContent = jsonParser.safeParse(fileContent);
-        if (!parsedContent.success) {
+    protected parseFile(
+        fileContent: string,
+        filePath?: string,
+    ): Record<string, unknown> {
+        try {
+            return JSON.parse(fileContent);
+        } catch (error) {
             this.logger.log('Could not parse JSON.', 'error');
-            throw new ParseError('Could not parse JSON file.');
+            const position = getJsonErrorPosition(fileContent, error);
+            throw this.createParseError('JSON', fileContent, {
+                filePath,
+                reason:
+                    error instanceof Error
+                        ? error.message
+                              .replace(/ in JSON at position \d+.*$/s, '')
+                              .replace(/, ".*" is not valid JSON$/s, '')
+                        : undefined,
+                line: position?.line,
+                column: position?.column,
+                cause: error,
+            });
         }
-        return parsedContent.data;
+    }
+
+    protected override locateInFile(
+        fileContent: string,
+        path: PropertyKey[],
+    ): SourcePosition | undefined {
+        return locateYamlPath(fileContent, path);
     }
 }
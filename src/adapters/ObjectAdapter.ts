@@ -2,6 +2,10 @@ import { Adapter, type ObjectOrFileRef } from './Adapter';
 import { AdapterError } from '../errors';
 
 export class ObjectAdapter extends Adapter {
+    public override canHandle(objectOrFileRef: ObjectOrFileRef): boolean {
+        return typeof objectOrFileRef === 'object';
+    }
+
     public async load(
         objectOrFileRef: ObjectOrFileRef,
     ): Promise<Record<string, unknown>> {
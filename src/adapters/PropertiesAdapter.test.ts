@@ -0,0 +1,29 @@
+import { describe, expect, it } from '@jest/globals';
+import { ParseError } from '../errors';
+import { PropertiesAdapter } from './PropertiesAdapter';
+import path from 'path';
+
+describe('PropertiesAdapter', () => {
+    const testFilePath = path.resolve(
+        __dirname,
+        '../../tests/fixtures/test-config.properties',
+    );
+
+    it('should load a properties file async', async () => {
+        const adapter = new PropertiesAdapter();
+        const result = await adapter.load(testFilePath);
+        expect(result).toEqual({ port: '3000', host: 'localhost' });
+    });
+    it('should load a properties file sync', () => {
+        const adapter = new PropertiesAdapter();
+        const result = adapter.loadSync(testFilePath);
+        expect(result).toEqual({ port: '3000', host: 'localhost' });
+    });
+
+    it('should throw a ParseError when loading an invalid properties file', () => {
+        const adapter = new PropertiesAdapter();
+        expect(() => adapter['parseFile']('name=app\nname=\\u00')).toThrow(
+            ParseError,
+        );
+    });
+});
@@ -0,0 +1,37 @@
+import { FileAdapter } from './FileAdapter';
+import type { Logger } from '../Logger';
+import { ParseError } from '../errors';
+import { parseProperties } from '../properties';
+
+export class PropertiesAdapter extends FileAdapter {
+    public override readonly extensions = ['.properties'];
+    public override readonly mimeTypes = ['text/x-java-properties'];
+
+    constructor({
+        encoding = 'utf-8',
+        logger,
+    }: {
+        encoding?: BufferEncoding;
+        logger?: Logger;
+    } = {}) {
+        super({ encoding, logger });
+    }
+
+    protected parseFile(
+        fileContent: string,
+        filePath?: string,
+    ): Record<string, unknown> {
+        try {
+            return parseProperties(fileContent);
+        } catch (error) {
+            this.logger.log('Could not parse properties.', 'error');
+            throw this.createParseError('properties', fileContent, {
+                filePath,
+                reason: error instanceof Error ? error.message : String(error),
+                // The reason already mentions the line, but not the column.
+                line: error instanceof ParseError ? error.line : undefined,
+                cause: error,
+            });
+        }
+    }
+}
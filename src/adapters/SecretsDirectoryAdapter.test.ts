@@ -0,0 +1,101 @@
+import { AdapterError, ReadError } from '../errors';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'fs/promises';
+import { SecretsDirectoryAdapter } from './SecretsDirectoryAdapter';
+import path from 'path';
+import { tmpdir } from 'os';
+
+describe('SecretsDirectoryAdapter', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'zod-figure-'));
+        await writeFile(path.join(directory, 'password'), 'secret\n');
+        await writeFile(path.join(directory, 'db__user'), ' admin ');
+    });
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should load every file in a directory async', async () => {
+        const adapter = new SecretsDirectoryAdapter();
+        expect(await adapter.load(directory)).toEqual({
+            db: { user: 'admin' },
+            password: 'secret',
+        });
+    });
+    it('should load every file in a directory sync', () => {
+        const adapter = new SecretsDirectoryAdapter();
+        expect(adapter.loadSync(directory)).toEqual({
+            db: { user: 'admin' },
+            password: 'secret',
+        });
+    });
+
+    it('should only handle directories', () => {
+        const adapter = new SecretsDirectoryAdapter();
+        expect(adapter.canHandle(directory)).toBe(true);
+        expect(adapter.canHandle(path.join(directory, 'password'))).toBe(false);
+        expect(adapter.canHandle(path.join(directory, 'missing'))).toBe(false);
+        expect(adapter.canHandle({})).toBe(false);
+    });
+
+    it('should list the file of every secret', () => {
+        const adapter = new SecretsDirectoryAdapter({ separator: '.' });
+        expect(adapter.loadSecretsSync(directory)).toEqual([
+            {
+                key: 'db__user',
+                path: path.join(directory, 'db__user'),
+                value: 'admin',
+            },
+            {
+                key: 'password',
+                path: path.join(directory, 'password'),
+                value: 'secret',
+            },
+        ]);
+    });
+
+    it('should skip hidden files and directories, as mounted by Kubernetes', async () => {
+        await mkdir(path.join(directory, '..data'));
+        await writeFile(path.join(directory, '..data', 'token'), 'abc');
+        await symlink(
+            path.join(directory, '..data', 'token'),
+            path.join(directory, 'token'),
+        );
+        const adapter = new SecretsDirectoryAdapter();
+        expect(await adapter.load(directory)).toEqual({
+            db: { user: 'admin' },
+            password: 'secret',
+            token: 'abc',
+        });
+    });
+
+    it('should not trim secrets when trimming is disabled', () => {
+        const adapter = new SecretsDirectoryAdapter({ trim: false });
+        expect(adapter.readSecretSync(path.join(directory, 'password'))).toBe(
+            'secret\n',
+        );
+    });
+
+    it('should throw a ReadError when a secret exceeds the maximum size', async () => {
+        const adapter = new SecretsDirectoryAdapter({ maxBytes: 4 });
+        await expect(adapter.load(directory)).rejects.toThrow(ReadError);
+        expect(() => adapter.loadSync(directory)).toThrow(
+            `Secret at ${path.join(directory, 'db__user')} exceeds the maximum size of 4 bytes.`,
+        );
+    });
+
+    it('should throw a ReadError when the directory or file does not exist', async () => {
+        const adapter = new SecretsDirectoryAdapter();
+        const missing = path.join(directory, 'missing');
+        await expect(adapter.load(missing)).rejects.toThrow(ReadError);
+        expect(() => adapter.loadSync(missing)).toThrow(ReadError);
+        await expect(adapter.readSecret(missing)).rejects.toThrow(ReadError);
+    });
+
+    it('should throw an AdapterError when loading a non-string', () => {
+        const adapter = new SecretsDirectoryAdapter();
+        expect(() => adapter.loadSync({} as string)).toThrow(AdapterError);
+    });
+});
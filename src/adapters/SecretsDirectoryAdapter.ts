@@ -0,0 +1,177 @@
+import { AdapterError, ReadError } from '../errors';
+import {
+    getDirectoryPath,
+    isDirectorySource,
+    readFileNames,
+    readFileNamesSync,
+} from '../directory';
+import { FileAdapter } from './FileAdapter';
+import type { Logger } from '../Logger';
+import type { ObjectOrFileRef } from './Adapter';
+import { join } from 'path';
+import { setPath } from '../paths';
+import { stat } from 'fs/promises';
+import { statSync } from 'fs';
+
+/**
+ * A secret read from a file in a secrets directory.
+ */
+export type SecretFile = {
+    // The dot separated path of the value the secret supplies.
+    key: string;
+    // The path of the file the secret was read from.
+    path: string;
+    value: string;
+};
+
+/**
+ * Loads secrets mounted as files, such as Docker secrets in `/run/secrets` or a Kubernetes secret volume.
+ * Every file in the directory supplies the value of the key matching its file name. Nested keys are separated by
+ * `separator` in the file name, e.g. `db__password` supplies `db.password`. Hidden files and directories are skipped.
+ */
+export class SecretsDirectoryAdapter extends FileAdapter {
+    private maxBytes: number;
+    private trim: boolean;
+    private separator: string;
+
+    constructor({
+        encoding = 'utf-8',
+        logger,
+        maxBytes = 64 * 1024,
+        trim = true,
+        separator = '__',
+    }: {
+        encoding?: BufferEncoding;
+        logger?: Logger;
+        maxBytes?: number;
+        trim?: boolean;
+        separator?: string;
+    } = {}) {
+        super({ encoding, logger });
+        this.maxBytes = maxBytes;
+        this.trim = trim;
+        this.separator = separator;
+    }
+
+    /**
+     * Determines whether a source is a directory.
+     * @param objectOrFileRef The source to load.
+     * @param mimeType The MIME type of the source, directories have none.
+     * @returns Whether the source is the path of an existing directory.
+     */
+    public override canHandle(
+        objectOrFileRef: ObjectOrFileRef,
+        mimeType?: string,
+    ): boolean {
+        return isDirectorySource(objectOrFileRef, mimeType);
+    }
+
+    public override async load(
+        path: ObjectOrFileRef,
+    ): Promise<Record<string, unknown>> {
+        return this.toValues(
+            await this.loadSecrets(getDirectoryPath(path, this.logger)),
+        );
+    }
+    public override loadSync(path: ObjectOrFileRef): Record<string, unknown> {
+        return this.toValues(
+            this.loadSecretsSync(getDirectoryPath(path, this.logger)),
+        );
+    }
+
+    /**
+     * Reads every secret in a directory.
+     * @param directory The path of the directory.
+     * @returns The secrets, ordered by file name.
+     */
+    public async loadSecrets(directory: string): Promise<SecretFile[]> {
+        const fileNames = await readFileNames(directory, this.logger);
+        return Promise.all(
+            fileNames.map(async (fileName) => {
+                const path = join(directory, fileName);
+                return {
+                    key: this.toKey(fileName),
+                    path,
+                    value: await this.readSecret(path),
+                };
+            }),
+        );
+    }
+    /**
+     * Reads every secret in a directory synchronously.
+     * @param directory The path of the directory.
+     * @returns The secrets, ordered by file name.
+     */
+    public loadSecretsSync(directory: string): SecretFile[] {
+        return readFileNamesSync(directory, this.logger).map((fileName) => {
+            const path = join(directory, fileName);
+            return {
+                key: this.toKey(fileName),
+                path,
+                value: this.readSecretSync(path),
+            };
+        });
+    }
+
+    /**
+     * Reads a single secret file.
+     * @param path The path of the file.
+     * @returns The content of the file, trimmed unless trimming is disabled.
+     */
+    public async readSecret(path: string): Promise<string> {
+        let size: number | null = null;
+        try {
+            size = (await stat(path)).size;
+        } catch {
+            // Reading the file reports the error.
+        }
+        this.checkSize(path, size);
+        return this.parseSecret(await this.readFile(path));
+    }
+    /**
+     * Reads a single secret file synchronously.
+     * @param path The path of the file.
+     * @returns The content of the file, trimmed unless trimming is disabled.
+     */
+    public readSecretSync(path: string): string {
+        let size: number | null = null;
+        try {
+            size = statSync(path).size;
+        } catch {
+            // Reading the file reports the error.
+        }
+        this.checkSize(path, size);
+        return this.parseSecret(this.readFileSync(path));
+    }
+
+    // Secrets are read by file, so there is no file content to parse into an object.
+    protected parseFile(): never {
+        throw new AdapterError('Secrets can only be loaded from a directory.');
+    }
+
+    private toKey(fileName: string): string {
+        return fileName.split(this.separator).join('.');
+    }
+
+    private toValues(secrets: SecretFile[]): Record<string, unknown> {
+        return secrets.reduce<Record<string, unknown>>(
+            (values, { key, value }) => setPath(values, key, value),
+            {},
+        );
+    }
+
+    private checkSize(path: string, size: number | null): void {
+        if (size === null || size <= this.maxBytes) return;
+        this.logger.log(
+            `Secret at ${path} exceeds the maximum size of ${this.maxBytes} bytes.`,
+            'error',
+        );
+        throw new ReadError(
+            `Secret at ${path} exceeds the maximum size of ${this.maxBytes} bytes.`,
+        );
+    }
+
+    private parseSecret(fileContent: string): string {
+        return this.trim ? fileContent.trim() : fileContent;
+    }
+}
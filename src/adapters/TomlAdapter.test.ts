@@ -0,0 +1,54 @@
+import { describe, expect, it } from '@jest/globals';
+import { TomlAdapter } from './TomlAdapter';
+import path from 'path';
+
+describe('TomlAdapter', () => {
+    const testFilePath = path.resolve(
+        __dirname,
+        '../../tests/fixtures/test-config.toml',
+    );
+
+    it('should load a TOML file async', async () => {
+        const adapter = new TomlAdapter();
+        const result = await adapter.load(testFilePath);
+        expect(result).toEqual({ port: 3000, host: 'localhost' });
+    });
+    it('should load a TOML file sync', () => {
+        const adapter = new TomlAdapter();
+        const result = adapter.loadSync(testFilePath);
+        expect(result).toEqual({ port: 3000, host: 'localhost' });
+    });
+
+    it('should parse dates, inline tables and arrays of tables', () => {
+        const adapter = new TomlAdapter();
+        const result = adapter['parseFile'](
+            [
+                'released = 1979-05-27T07:32:00Z',
+                'db = { host = "localhost", ports = [8000, 8001] }',
+                '[[servers]]',
+                'name = "alpha"',
+                '[[servers]]',
+                'name = "beta"',
+            ].join('\n'),
+        );
+        expect(result['released']).toBeInstanceOf(Date);
+        expect((result['released'] as Date).toISOString()).toEqual(
+            '1979-05-27T07:32:00.000Z',
+        );
+        expect(result['db']).toEqual({
+            host: 'localhost',
+            ports: [8000, 8001],
+        });
+        expect(result['servers']).toEqual([
+            { name: 'alpha' },
+            { name: 'beta' },
+        ]);
+    });
+
+    it('should throw a ParseError with the position of invalid TOML', () => {
+        const adapter = new TomlAdapter();
+        expect(() => adapter['parseFile']('port = 3000\nhost = = 1')).toThrow(
+            'Could not parse TOML file at line 2, column 8: invalid value.',
+        );
+    });
+});
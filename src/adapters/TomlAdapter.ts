@@ -0,0 +1,45 @@
+import { TomlError, parse } from 'smol-toml';
+import { FileAdapter } from './FileAdapter';
+import type { Logger } from '../Logger';
+
+export class TomlAdapter extends FileAdapter {
+    public override readonly extensions = ['.toml'];
+    public override readonly mimeTypes = ['application/toml'];
+
+    constructor({
+        encoding = 'utf-8',
+        logger,
+    }: {
+        encoding?: BufferEncoding;
+        logger?: Logger;
+    } = {}) {
+        super({ encoding, logger });
+    }
+
+    protected parseFile(
+        fileContent: string,
+        filePath?: string,
+    ): Record<string, unknown> {
+        try {
+            return parse(fileContent);
+        } catch (error) {
+            this.logger.log('Could not parse TOML.', 'error');
+            if (!(error instanceof TomlError)) {
+                throw this.createParseError('TOML', fileContent, {
+                    filePath,
+                    cause: error,
+                });
+            }
+            throw this.createParseError('TOML', fileContent, {
+                filePath,
+                // The first line of the message describes the error, the rest shows the surrounding lines.
+                reason: error.message
+                    .split('\n')[0]
+                    ?.replace(/^Invalid TOML document: /, ''),
+                line: error.line,
+                column: error.column,
+                cause: error,
+            });
+        }
+    }
+}
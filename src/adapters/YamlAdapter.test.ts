@@ -1,7 +1,7 @@
+import { YamlAdapter, locateYamlPath } from './YamlAdapter';
 import { describe, expect, it, jest } from '@jest/globals';
 import { ParseError } from '../errors';
 import YAML from 'yaml';
-import { YamlAdapter } from './YamlAdapter';
 import path from 'path';
 import { readFile } from 'fs/promises';
 
@@ -41,4 +41,31 @@ describe('YamlAdapter', () => {
         await expect(adapter.load(testFilePath)).rejects.toThrow(ParseError);
         mockedYamlParse.mockRestore();
     });
+
+    it('should throw a ParseError with the position of invalid YAML', () => {
+        const adapter = new YamlAdapter();
+        expect(() =>
+            adapter['parseFile']('port: 3000\nhosts: [a, b\nname: app'),
+        ).toThrow(
+            'Could not parse YAML file at line 3, column 1: Flow sequence in block collection must be sufficiently indented and end with a ].',
+        );
+    });
+
+    it('should locate keys in YAML and JSON documents', () => {
+        const content = 'db:\n  hosts:\n    - a\n    - b\n';
+        expect(locateYamlPath(content, ['db', 'hosts', 1])).toEqual({
+            line: 4,
+            column: 7,
+        });
+        // Missing values are located at their closest parent.
+        expect(locateYamlPath(content, ['db', 'port'])).toEqual({
+            line: 1,
+            column: 1,
+        });
+        expect(locateYamlPath('{\n  "port": 3000\n}', ['port'])).toEqual({
+            line: 2,
+            column: 3,
+        });
+        expect(locateYamlPath('port: 3000', ['host'])).toBeUndefined();
+    });
 });
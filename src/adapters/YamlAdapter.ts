@@ -1,9 +1,51 @@
+import { type SourcePosition, getPosition } from '../codeFrame';
+import YAML, { YAMLParseError } from 'yaml';
 import { FileAdapter } from './FileAdapter';
 import type { Logger } from '../Logger';
-import { ParseError } from '../errors';
-import YAML from 'yaml';
+
+/**
+ * Finds the position of the key of the value at a path in a YAML document. JSON documents are supported as well, as
+ * JSON is a subset of YAML.
+ * @param content The YAML document.
+ * @param path The path of the value.
+ * @returns The position of the key, or of the key of its closest parent when the value is missing.
+ */
+export const locateYamlPath = (
+    content: string,
+    path: PropertyKey[],
+): SourcePosition | undefined => {
+    let node: unknown = YAML.parseDocument(content).contents;
+    let offset: number | undefined;
+    for (const segment of path) {
+        let child: unknown;
+        let range: YAML.Range | null | undefined;
+        if (YAML.isMap(node)) {
+            const pair = node.items.find(({ key }) =>
+                YAML.isScalar(key)
+                    ? String(key.value) === String(segment)
+                    : key === segment,
+            );
+            child = pair?.value;
+            range = YAML.isNode(pair?.key) ? pair.key.range : undefined;
+        } else if (YAML.isSeq(node)) {
+            child = node.items[Number(segment)];
+            range = YAML.isNode(child) ? child.range : undefined;
+        }
+        if (!range) break;
+        offset = range[0];
+        node = child;
+    }
+    return offset === undefined ? undefined : getPosition(content, offset);
+};
 
 export class YamlAdapter extends FileAdapter {
+    public override readonly extensions = ['.yaml', '.yml'];
+    public override readonly mimeTypes = [
+        'application/yaml',
+        'application/x-yaml',
+        'text/yaml',
+    ];
+
     constructor({
         encoding = 'utf-8',
         logger,
@@ -14,12 +56,36 @@ export class YamlAdapter extends FileAdapter {
         super({ encoding, logger });
     }
 
-    protected parseFile(fileContent: string): Record<string, unknown> {
+    protected parseFile(
+        fileContent: string,
+        filePath?: string,
+    ): Record<string, unknown> {
         try {
             return YAML.parse(fileContent);
-        } catch {
+        } catch (error) {
             this.logger.log('Could not parse YAML.', 'error');
-            throw new ParseError('Could not parse YAML file.');
+            if (!(error instanceof YAMLParseError)) {
+                throw this.createParseError('YAML', fileContent, {
+                    filePath,
+                    cause: error,
+                });
+            }
+            const [position] = error.linePos ?? [];
+            throw this.createParseError('YAML', fileContent, {
+                filePath,
+                // The message repeats the position and the surrounding lines, which are added separately.
+                reason: error.message.split(/ at line \d+/)[0],
+                line: position?.line,
+                column: position?.col,
+                cause: error,
+            });
         }
     }
+
+    protected override locateInFile(
+        fileContent: string,
+        path: PropertyKey[],
+    ): SourcePosition | undefined {
+        return locateYamlPath(fileContent, path);
+    }
 }
@@ -0,0 +1,34 @@
+import { createCodeFrame, getPosition } from './codeFrame';
+import { describe, expect, it } from '@jest/globals';
+
+describe('codeFrame', () => {
+    const content = ['a: 1', 'b:', '  c: 2', 'd: 3', 'e: 4', 'f: 5'].join('\n');
+
+    it('should convert an offset to a position', () => {
+        expect(getPosition(content, 0)).toEqual({ line: 1, column: 1 });
+        expect(getPosition(content, content.indexOf('c'))).toEqual({
+            line: 3,
+            column: 3,
+        });
+        expect(getPosition('a\r\nb', 3)).toEqual({ line: 2, column: 1 });
+    });
+
+    it('should point at a position with the surrounding lines', () => {
+        expect(createCodeFrame(content, { line: 3, column: 3 })).toEqual(
+            [
+                '  1 | a: 1',
+                '  2 | b:',
+                '> 3 |   c: 2',
+                '    |   ^',
+                '  4 | d: 3',
+                '  5 | e: 4',
+            ].join('\n'),
+        );
+    });
+
+    it('should only mark the line when the column is unknown', () => {
+        expect(createCodeFrame(content, { line: 1 }, 1)).toEqual(
+            ['> 1 | a: 1', '  2 | b:'].join('\n'),
+        );
+    });
+});
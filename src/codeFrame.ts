@@ -0,0 +1,58 @@
+/**
+ * A position in a file. Lines and columns start at 1.
+ */
+export type SourcePosition = {
+    line: number;
+    column: number;
+};
+
+/**
+ * Converts an offset in a text to a line and column.
+ * @param content The text.
+ * @param offset The offset of the character in the text.
+ * @returns The position of the character.
+ */
+export const getPosition = (
+    content: string,
+    offset: number,
+): SourcePosition => {
+    const lines = content.slice(0, offset).split(/\r\n?|\n/);
+    return {
+        line: lines.length,
+        column: (lines[lines.length - 1] ?? '').length + 1,
+    };
+};
+
+/**
+ * Creates a snippet of a text that points at a position, showing the surrounding lines with their line numbers.
+ * @param content The text.
+ * @param position The position to point at. Without a column, only the line is marked.
+ * @param position.line The line to point at.
+ * @param position.column The column to point at.
+ * @param contextLines The number of lines to show before and after the position.
+ * @returns The code frame.
+ */
+export const createCodeFrame = (
+    content: string,
+    { line, column }: { line: number; column?: number | undefined },
+    contextLines = 2,
+): string => {
+    const lines = content.split(/\r\n?|\n/);
+    const start = Math.max(line - contextLines, 1);
+    const end = Math.min(line + contextLines, lines.length);
+    const width = String(end).length;
+    const frame: string[] = [];
+    for (let number = start; number <= end; number++) {
+        const marker = number === line ? '>' : ' ';
+        const text = lines[number - 1] ?? '';
+        frame.push(
+            `${marker} ${String(number).padStart(width)} | ${text}`.trimEnd(),
+        );
+        if (number === line && column !== undefined) {
+            frame.push(
+                `  ${' '.repeat(width)} | ${' '.repeat(Math.max(column - 1, 0))}^`,
+            );
+        }
+    }
+    return frame.join('\n');
+};
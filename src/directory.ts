@@ -0,0 +1,100 @@
+import { AdapterError, ReadError } from './errors';
+import { type Dirent, readdirSync, statSync } from 'fs';
+import { type ObjectOrFileRef, getScheme } from './adapters/Adapter';
+import type { Logger } from './Logger';
+import { readdir } from 'fs/promises';
+
+/**
+ * Checks whether a source is the path of an existing directory.
+ * @param objectOrFileRef The source to check.
+ * @param mimeType The MIME type of the source, directories have none.
+ * @returns Whether the source is a directory.
+ */
+export const isDirectorySource = (
+    objectOrFileRef: ObjectOrFileRef,
+    mimeType?: string,
+): boolean => {
+    if (mimeType !== undefined || typeof objectOrFileRef !== 'string') {
+        return false;
+    }
+    if (getScheme(objectOrFileRef)) return false;
+    try {
+        return statSync(objectOrFileRef).isDirectory();
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Retrieves the directory path of a source.
+ * @param objectOrFileRef The source to load.
+ * @param logger The logger used to report an invalid source.
+ * @returns The path of the directory.
+ * @throws {AdapterError} When the source is not a path.
+ */
+export const getDirectoryPath = (
+    objectOrFileRef: ObjectOrFileRef,
+    logger: Logger,
+): string => {
+    if (typeof objectOrFileRef !== 'string') {
+        logger.log('Adapter cannot handle this input type.', 'error');
+        throw new AdapterError();
+    }
+    return objectOrFileRef;
+};
+
+// Kubernetes mounts volumes through hidden symlinked directories (e.g. `..data`), which are skipped.
+const getFileNames = (entries: Dirent[]): string[] =>
+    entries
+        .filter(
+            (entry) =>
+                !entry.name.startsWith('.') &&
+                (entry.isFile() || entry.isSymbolicLink()),
+        )
+        .map((entry) => entry.name)
+        .sort();
+
+const createReadError = (directory: string, logger: Logger): ReadError => {
+    logger.log(`Could not read directory at ${directory}.`, 'error');
+    return new ReadError(`Could not read directory at ${directory}.`);
+};
+
+/**
+ * Lists the files in a directory, skipping hidden files and directories.
+ * @param directory The path of the directory.
+ * @param logger The logger used to report a directory that can't be read.
+ * @returns The file names, in lexical order.
+ * @throws {ReadError} When the directory can't be read.
+ */
+export const readFileNames = async (
+    directory: string,
+    logger: Logger,
+): Promise<string[]> => {
+    let entries: Dirent[];
+    try {
+        entries = await readdir(directory, { withFileTypes: true });
+    } catch {
+        throw createReadError(directory, logger);
+    }
+    return getFileNames(entries);
+};
+
+/**
+ * Lists the files in a directory synchronously, skipping hidden files and directories.
+ * @param directory The path of the directory.
+ * @param logger The logger used to report a directory that can't be read.
+ * @returns The file names, in lexical order.
+ * @throws {ReadError} When the directory can't be read.
+ */
+export const readFileNamesSync = (
+    directory: string,
+    logger: Logger,
+): string[] => {
+    let entries: Dirent[];
+    try {
+        entries = readdirSync(directory, { withFileTypes: true });
+    } catch {
+        throw createReadError(directory, logger);
+    }
+    return getFileNames(entries);
+};
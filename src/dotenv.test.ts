@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { expandDotenvValue, loadDotenv, parseDotenv } from './dotenv';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { ParseError } from './errors';
+import path from 'path';
+import { tmpdir } from 'os';
+
+describe('dotenv', () => {
+    it('should parse variables, comments and export prefixes', () => {
+        const content = [
+            '# A comment',
+            'HOST=localhost',
+            '  export PORT = 3000 # The port',
+            'EMPTY=',
+            'URL=http://localhost/#anchor',
+        ].join('\n');
+        expect(parseDotenv(content)).toEqual([
+            { key: 'HOST', value: 'localhost', expand: true },
+            { key: 'PORT', value: '3000', expand: true },
+            { key: 'EMPTY', value: '', expand: true },
+            { key: 'URL', value: 'http://localhost/#anchor', expand: true },
+        ]);
+    });
+
+    it('should parse quoted and multiline values', () => {
+        const content = [
+            "SINGLE='$HOME is not expanded'",
+            'DOUBLE="Line 1\\nLine \\"2\\"" # A comment',
+            'BACKTICK=`He said "hi"`',
+            'MULTILINE="-----BEGIN KEY-----',
+            'abc',
+            '-----END KEY-----"',
+        ].join('\n');
+        expect(parseDotenv(content)).toEqual([
+            {
+                key: 'SINGLE',
+                value: '$HOME is not expanded',
+                expand: false,
+            },
+            { key: 'DOUBLE', value: 'Line 1\nLine "2"', expand: true },
+            { key: 'BACKTICK', value: 'He said "hi"', expand: true },
+            {
+                key: 'MULTILINE',
+                value: '-----BEGIN KEY-----\nabc\n-----END KEY-----',
+                expand: true,
+            },
+        ]);
+    });
+
+    it('should throw a ParseError for invalid content', () => {
+        expect(() => parseDotenv('NOT A VARIABLE')).toThrow(ParseError);
+        expect(() => parseDotenv('KEY="unclosed')).toThrow(
+            'Missing closing quote for KEY.',
+        );
+    });
+
+    it('should expand references to other variables', () => {
+        const variables: Record<string, string> = {
+            HOST: 'localhost',
+            EMPTY: '',
+        };
+        const lookup = (name: string) => variables[name];
+        expect(expandDotenvValue('http://${HOST}:$PORT', lookup)).toEqual(
+            'http://localhost:',
+        );
+        expect(expandDotenvValue('${PORT:-3000}', lookup)).toEqual('3000');
+        expect(expandDotenvValue('${PORT-3000}', lookup)).toEqual('3000');
+        expect(expandDotenvValue('${EMPTY:-default}', lookup)).toEqual(
+            'default',
+        );
+        expect(expandDotenvValue('${EMPTY-default}', lookup)).toEqual('');
+        expect(expandDotenvValue('\\${HOST}', lookup)).toEqual('${HOST}');
+    });
+
+    describe('loading files', () => {
+        let directory: string;
+
+        beforeEach(async () => {
+            directory = await mkdtemp(path.join(tmpdir(), 'zod-figure-'));
+        });
+        afterEach(async () => {
+            await rm(directory, { recursive: true, force: true });
+        });
+
+        it('should load files in order of precedence', async () => {
+            await writeFile(
+                path.join(directory, '.env'),
+                'HOST=localhost\nPORT=3000\nURL=http://${HOST}:${PORT}',
+            );
+            await writeFile(path.join(directory, '.env.local'), 'PORT=4000');
+            await writeFile(
+                path.join(directory, '.env.production'),
+                'HOST=remotehost\nURL=https://${HOST}',
+            );
+            await writeFile(path.join(directory, '.env.test'), 'HOST=testhost');
+            expect(
+                loadDotenv({ path: directory }, { NODE_ENV: 'production' }),
+            ).toEqual({
+                HOST: 'remotehost',
+                PORT: '4000',
+                URL: 'https://remotehost',
+            });
+            expect(loadDotenv({ path: directory }, {})).toEqual({
+                HOST: 'localhost',
+                PORT: '4000',
+                URL: 'http://localhost:3000',
+            });
+        });
+
+        it('should expand references using the environment', async () => {
+            await writeFile(
+                path.join(directory, '.env'),
+                'HOST=localhost\nURL=http://${HOST}',
+            );
+            expect(
+                loadDotenv({ path: directory }, { HOST: 'remotehost' }),
+            ).toMatchObject({ URL: 'http://remotehost' });
+            expect(
+                loadDotenv(
+                    { path: directory, override: true },
+                    { HOST: 'remotehost' },
+                ),
+            ).toMatchObject({ URL: 'http://localhost' });
+        });
+
+        it('should load custom files and report the file that can not be parsed', async () => {
+            await writeFile(path.join(directory, 'app.env'), 'HOST=app');
+            await writeFile(path.join(directory, 'invalid.env'), 'INVALID');
+            expect(loadDotenv({ path: directory, files: ['app.env'] })).toEqual(
+                { HOST: 'app' },
+            );
+            expect(() =>
+                loadDotenv({ path: directory, files: ['invalid.env'] }),
+            ).toThrow(
+                `Could not parse ${path.join(directory, 'invalid.env')}: Could not parse line 1.`,
+            );
+        });
+    });
+});
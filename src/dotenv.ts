@@ -0,0 +1,154 @@
+import { existsSync, readFileSync } from 'fs';
+import { findClosingQuote, unescapeDoubleQuoted } from './quotes';
+import { ParseError } from './errors';
+import { resolve } from 'path';
+
+/**
+ * Options used to load `.env` files.
+ */
+export type DotenvOptions = {
+    // The directory containing the files. Defaults to the current working directory.
+    path?: string | undefined;
+    // The files to load, in order of increasing precedence.
+    files?: string[] | undefined;
+    // Values from files override variables that are already set in the environment.
+    override?: boolean | undefined;
+    // Also assign the values to process.env. By default, the values are only used by ZodConfig.
+    populateProcessEnv?: boolean | undefined;
+};
+
+// A single variable in a .env file. Values in single quotes are not expanded.
+type DotenvEntry = { key: string; value: string; expand: boolean };
+
+const LINE = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/;
+const EXPANSION =
+    /(\\)?\$(?:\{([A-Za-z_]\w*)(?:(:?-)([^}]*))?\}|([A-Za-z_]\w*))/g;
+
+/**
+ * Parses the content of a `.env` file.
+ * Supports comments, `export` prefixes, single, double and backtick quoted values spanning multiple lines, and escape
+ * sequences (`\n`, `\r`, `\t`) in double quoted values.
+ * @param content The content of the file.
+ * @returns The variables, in the order in which they are defined.
+ * @throws {ParseError} When a line can't be parsed, or a quoted value is not closed.
+ */
+export const parseDotenv = (content: string): DotenvEntry[] => {
+    const entries: DotenvEntry[] = [];
+    const lines = content.replace(/\r\n?/g, '\n').split('\n');
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index] ?? '';
+        if (!line.trim() || line.trim().startsWith('#')) continue;
+
+        const [, key = '', value = ''] = LINE.exec(line) ?? [];
+        if (!key) {
+            throw new ParseError(`Could not parse line ${index + 1}.`);
+        }
+
+        const quote = value[0];
+        if (quote !== '"' && quote !== "'" && quote !== '`') {
+            // Unquoted values end at a comment.
+            entries.push({
+                key,
+                value: value.replace(/(^|\s+)#.*$/, '').trim(),
+                expand: true,
+            });
+            continue;
+        }
+
+        let text = value.slice(1);
+        let end = findClosingQuote(text, quote);
+        while (end === -1 && index < lines.length - 1) {
+            index++;
+            text += `\n${lines[index]}`;
+            end = findClosingQuote(text, quote);
+        }
+        if (end === -1) {
+            throw new ParseError(`Missing closing quote for ${key}.`);
+        }
+        const quoted = text.slice(0, end);
+        entries.push({
+            key,
+            value: quote === '"' ? unescapeDoubleQuoted(quoted) : quoted,
+            expand: quote !== "'",
+        });
+    }
+    return entries;
+};
+
+/**
+ * Expands references to other variables in a value, using `${VAR}`, `$VAR`, `${VAR:-default}` or `${VAR-default}`.
+ * As in the shell, `:-` uses the default when the variable is unset or empty, `-` only when it is unset. Unset
+ * variables without a default are replaced by an empty string. References prefixed by `\` are not expanded.
+ * @param value The value to expand.
+ * @param lookup Retrieves the value of a variable.
+ * @returns The expanded value.
+ */
+export const expandDotenvValue = (
+    value: string,
+    lookup: (name: string) => string | undefined,
+): string =>
+    value.replace(
+        EXPANSION,
+        (
+            match,
+            escaped?: string,
+            braced?: string,
+            operator?: string,
+            fallback?: string,
+            plain?: string,
+        ) => {
+            if (escaped) return match.slice(1);
+            const variable = lookup(braced ?? plain ?? '');
+            const useFallback =
+                operator === ':-' ? !variable : variable === undefined;
+            return useFallback && fallback !== undefined
+                ? fallback
+                : (variable ?? '');
+        },
+    );
+
+/**
+ * Loads variables from `.env` files. Missing files are skipped.
+ * By default `.env`, `.env.local`, `.env.${NODE_ENV}` and `.env.${NODE_ENV}.local` are loaded, later files taking
+ * precedence. References to other variables are expanded using the variables loaded so far and the environment.
+ * @param options The options used to load the files.
+ * @param options.path The directory containing the files. Defaults to the current working directory.
+ * @param options.files The files to load, in order of increasing precedence.
+ * @param options.override Whether values from files take precedence over the environment when expanding references.
+ * @param env The environment, used to determine `NODE_ENV` and to expand references.
+ * @returns The loaded variables.
+ * @throws {ParseError} When a file can't be parsed.
+ */
+export const loadDotenv = (
+    { path = process.cwd(), files, override = false }: DotenvOptions = {},
+    env: Record<string, string | undefined> = process.env,
+): Record<string, string> => {
+    const nodeEnv = env['NODE_ENV'];
+    const fileNames = files ?? [
+        '.env',
+        '.env.local',
+        ...(nodeEnv ? [`.env.${nodeEnv}`, `.env.${nodeEnv}.local`] : []),
+    ];
+    const values: Record<string, string> = {};
+    // Resolve references the same way the variables themselves are resolved.
+    const lookup = (name: string) =>
+        override ? (values[name] ?? env[name]) : (env[name] ?? values[name]);
+
+    for (const fileName of fileNames) {
+        const filePath = resolve(path, fileName);
+        if (!existsSync(filePath)) continue;
+
+        let entries: DotenvEntry[];
+        try {
+            entries = parseDotenv(readFileSync(filePath, 'utf8'));
+        } catch (error) {
+            const reason =
+                error instanceof Error ? error.message : String(error);
+            throw new ParseError(`Could not parse ${filePath}: ${reason}`);
+        }
+        for (const { key, value, expand } of entries) {
+            values[key] = expand ? expandDotenvValue(value, lookup) : value;
+        }
+    }
+    return values;
+};
@@ -0,0 +1,142 @@
+import {
+    coerceEnvValue,
+    deriveEnvBindings,
+    toEnvAliases,
+    toEnvName,
+    unwrapSchema,
+} from './env';
+import { describe, expect, it } from '@jest/globals';
+import { ParseError } from './errors';
+import { z } from 'zod';
+
+describe('env', () => {
+    it('should convert keys to environment variable names', () => {
+        expect(toEnvName('host')).toEqual('HOST');
+        expect(toEnvName('poolMax')).toEqual('POOL_MAX');
+        expect(toEnvName('pool-max')).toEqual('POOL_MAX');
+        expect(toEnvName('http2Enabled')).toEqual('HTTP2_ENABLED');
+    });
+
+    it('should unwrap schemas that do not change the shape', () => {
+        const object = z.object({ host: z.string() });
+        expect(unwrapSchema(object.optional().nullable())).toBe(object);
+        expect(unwrapSchema(object.default({ host: 'localhost' }))).toBe(
+            object,
+        );
+        expect(unwrapSchema(object.refine(() => true))).toBe(object);
+    });
+
+    it('should derive bindings for nested values', () => {
+        const pool = z.object({ max: z.number(), minIdle: z.number() });
+        const host = z.string();
+        const bindings = deriveEnvBindings(
+            z.object({ host, pool: pool.optional() }),
+            ['database'],
+            { prefix: 'APP_' },
+        );
+        expect(bindings).toEqual([
+            {
+                path: 'database.host',
+                names: [{ name: 'APP_DATABASE__HOST' }],
+                schema: host,
+            },
+            {
+                path: 'database.pool.max',
+                names: [{ name: 'APP_DATABASE__POOL__MAX' }],
+                schema: pool.shape.max,
+            },
+            {
+                path: 'database.pool.minIdle',
+                names: [{ name: 'APP_DATABASE__POOL__MIN_IDLE' }],
+                schema: pool.shape.minIdle,
+            },
+        ]);
+    });
+
+    it('should use a custom separator', () => {
+        const bindings = deriveEnvBindings(
+            z.object({ host: z.string() }),
+            ['database'],
+            { separator: '_' },
+        );
+        expect(bindings.map(({ names }) => names)).toEqual([
+            [{ name: 'DATABASE_HOST' }],
+        ]);
+    });
+
+    it('should coerce numbers and booleans', () => {
+        expect(coerceEnvValue('42', z.number())).toBe(42);
+        expect(coerceEnvValue(' 1.5 ', z.number().optional())).toBe(1.5);
+        expect(coerceEnvValue('abc', z.number())).toBe('abc');
+        expect(coerceEnvValue('42', z.bigint())).toBe(BigInt(42));
+        for (const value of ['true', '1', 'yes', 'YES']) {
+            expect(coerceEnvValue(value, z.boolean())).toBe(true);
+        }
+        for (const value of ['false', '0', 'no']) {
+            expect(coerceEnvValue(value, z.boolean().default(true))).toBe(
+                false,
+            );
+        }
+        expect(coerceEnvValue('maybe', z.boolean())).toBe('maybe');
+    });
+
+    it('should coerce enums, dates and literals', () => {
+        expect(coerceEnvValue('Debug', z.enum(['debug', 'info']))).toBe(
+            'debug',
+        );
+        enum Level {
+            Low = 1,
+            High = 2,
+        }
+        expect(coerceEnvValue('2', z.nativeEnum(Level))).toBe(Level.High);
+        expect(coerceEnvValue('2024-01-01', z.date())).toEqual(
+            new Date('2024-01-01'),
+        );
+        expect(coerceEnvValue('0', z.date())).toEqual(new Date(0));
+        expect(coerceEnvValue('5', z.literal(5))).toBe(5);
+    });
+
+    it('should coerce objects and arrays', () => {
+        expect(
+            coerceEnvValue(
+                '{"host":"localhost"}',
+                z.object({ host: z.string() }),
+            ),
+        ).toEqual({ host: 'localhost' });
+        expect(coerceEnvValue('a, b,c', z.array(z.string()))).toEqual([
+            'a',
+            'b',
+            'c',
+        ]);
+        expect(coerceEnvValue('1,2', z.array(z.number()))).toEqual([1, 2]);
+        expect(coerceEnvValue('[1, 2]', z.array(z.number()))).toEqual([1, 2]);
+        expect(() =>
+            coerceEnvValue('{host', z.object({ host: z.string() })),
+        ).toThrow(ParseError);
+    });
+
+    it('should coerce unions to the first matching option', () => {
+        const schema = z.union([z.number(), z.boolean(), z.string()]);
+        expect(coerceEnvValue('42', schema)).toBe(42);
+        expect(coerceEnvValue('yes', schema)).toBe(true);
+        expect(coerceEnvValue('abc', schema)).toBe('abc');
+    });
+
+    it('should not coerce values of schemas that preprocess their input', () => {
+        const schema = z.preprocess((value) => value, z.number());
+        expect(coerceEnvValue('42', schema)).toBe('42');
+    });
+
+    it('should convert environment variable names to aliases', () => {
+        expect(toEnvAliases('HOST')).toEqual([{ name: 'HOST' }]);
+        expect(
+            toEnvAliases([
+                'DATABASE_URL',
+                { name: 'DB_URL', deprecated: 'Use DATABASE_URL.' },
+            ]),
+        ).toEqual([
+            { name: 'DATABASE_URL' },
+            { name: 'DB_URL', deprecated: 'Use DATABASE_URL.' },
+        ]);
+    });
+});
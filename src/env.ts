@@ -0,0 +1,238 @@
+import { ParseError } from './errors';
+import { z } from 'zod';
+
+/**
+ * An environment variable name, optionally marked as deprecated.
+ * When `deprecated` is a string, it is used as the deprecation message.
+ */
+export type EnvAlias = {
+    name: string;
+    deprecated?: string | boolean | undefined;
+};
+
+/**
+ * A single environment variable name, or an ordered list of names where the first set variable is used.
+ */
+export type EnvNames = string | (string | EnvAlias)[];
+
+/**
+ * Environment variables mapped by their name.
+ */
+export type Environment = Record<string, string | undefined>;
+
+/**
+ * Environment variables, or a function returning them, which is called on every (re)load.
+ */
+export type EnvProvider =
+    | Environment
+    | (() => Environment | Promise<Environment>);
+
+/**
+ * Binds environment variables to the value at a dot separated path. The first set variable is used.
+ */
+export type EnvBinding = {
+    path: string;
+    names: EnvAlias[];
+    schema: z.ZodTypeAny;
+    // Also read the value from the file at the path in the `<NAME>_FILE` variable.
+    file?: boolean | undefined;
+};
+
+/**
+ * Options used to derive environment variable names from the schema shape.
+ */
+export type AutoEnvOptions = {
+    // Prepended to every derived name, e.g. `APP_`.
+    prefix?: string | undefined;
+    // Separates the segments of nested paths. Defaults to `__`.
+    separator?: string | undefined;
+};
+
+/**
+ * Converts one or more environment variable names to a list of aliases.
+ * @param names The names to convert.
+ * @returns The aliases, in order of precedence.
+ */
+export const toEnvAliases = (names: EnvNames): EnvAlias[] =>
+    (typeof names === 'string' ? [names] : names).map((name) =>
+        typeof name === 'string' ? { name } : name,
+    );
+
+/**
+ * Converts a key to an environment variable name segment, e.g. `poolMax` to `POOL_MAX`.
+ * @param key The key to convert.
+ * @returns The upper snake case name segment.
+ */
+export const toEnvName = (key: string): string =>
+    key
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .replace(/[^A-Za-z0-9]+/g, '_')
+        .toUpperCase();
+
+/**
+ * Removes wrappers that don't change the shape of a schema, such as optional, nullable, default and effects.
+ * @param schema The schema to unwrap.
+ * @returns The innermost schema.
+ */
+export const unwrapSchema = (schema: z.ZodTypeAny): z.ZodTypeAny => {
+    if (
+        schema instanceof z.ZodOptional ||
+        schema instanceof z.ZodNullable ||
+        schema instanceof z.ZodDefault
+    ) {
+        return unwrapSchema(schema._def.innerType);
+    }
+    if (schema instanceof z.ZodEffects) return unwrapSchema(schema._def.schema);
+    return schema;
+};
+
+/**
+ * Derives environment variable bindings for every leaf value in a schema, recursing into nested objects.
+ * @param schema The schema of the value.
+ * @param path The path segments of the value.
+ * @param options The options used to derive the names.
+ * @param options.prefix Prepended to every derived name.
+ * @param options.separator Separates the segments of nested paths.
+ * @returns The bindings of every leaf value.
+ */
+export const deriveEnvBindings = (
+    schema: z.ZodTypeAny,
+    path: string[],
+    { prefix = '', separator = '__' }: AutoEnvOptions = {},
+): EnvBinding[] => {
+    const shape = unwrapSchema(schema);
+    if (shape instanceof z.ZodObject) {
+        return Object.entries(shape.shape as z.ZodRawShape).flatMap(
+            ([key, child]) =>
+                deriveEnvBindings(child, [...path, key], { prefix, separator }),
+        );
+    }
+    return [
+        {
+            path: path.join('.'),
+            names: [{ name: prefix + path.map(toEnvName).join(separator) }],
+            schema,
+        },
+    ];
+};
+
+const TRUE_VALUES = ['true', '1', 'yes'];
+const FALSE_VALUES = ['false', '0', 'no'];
+
+const parseJson = (value: string): unknown => {
+    try {
+        return JSON.parse(value);
+    } catch {
+        throw new ParseError('Could not parse JSON.');
+    }
+};
+
+/**
+ * Coerces an environment variable string to the type expected by a schema.
+ * Numbers, booleans (`true/false/1/0/yes/no`), enums and dates are converted, objects and arrays are parsed as JSON,
+ * and arrays may also be supplied as a comma separated list. Values that can't be converted are returned as is, so the
+ * schema reports them. Schemas that preprocess their input receive the original string.
+ * @param value The environment variable value.
+ * @param schema The schema of the value the environment variable is bound to.
+ * @returns The coerced value.
+ * @throws {ParseError} When an object or array is not valid JSON.
+ */
+export const coerceEnvValue = (
+    value: string,
+    schema: z.ZodTypeAny,
+): unknown => {
+    if (schema instanceof z.ZodEffects) {
+        if (schema._def.effect.type === 'preprocess') return value;
+        return coerceEnvValue(value, schema._def.schema);
+    }
+    if (
+        schema instanceof z.ZodOptional ||
+        schema instanceof z.ZodNullable ||
+        schema instanceof z.ZodDefault
+    ) {
+        return coerceEnvValue(value, schema._def.innerType);
+    }
+
+    const trimmed = value.trim();
+    if (schema instanceof z.ZodNumber) {
+        const number = Number(trimmed);
+        return trimmed !== '' && !Number.isNaN(number) ? number : value;
+    }
+    if (schema instanceof z.ZodBigInt) {
+        try {
+            return BigInt(trimmed);
+        } catch {
+            return value;
+        }
+    }
+    if (schema instanceof z.ZodBoolean) {
+        const lowerCase = trimmed.toLowerCase();
+        if (TRUE_VALUES.includes(lowerCase)) return true;
+        if (FALSE_VALUES.includes(lowerCase)) return false;
+        return value;
+    }
+    if (schema instanceof z.ZodDate) {
+        const date = new Date(
+            /^\d+$/.test(trimmed) ? Number(trimmed) : trimmed,
+        );
+        return Number.isNaN(date.getTime()) ? value : date;
+    }
+    if (schema instanceof z.ZodEnum) {
+        const options = schema.options as string[];
+        return (
+            options.find((option) => option === trimmed) ??
+            options.find(
+                (option) => option.toLowerCase() === trimmed.toLowerCase(),
+            ) ??
+            value
+        );
+    }
+    if (schema instanceof z.ZodNativeEnum) {
+        const options = Object.values(schema.enum as Record<string, unknown>);
+        return options.find((option) => String(option) === trimmed) ?? value;
+    }
+    if (schema instanceof z.ZodLiteral) {
+        const literal: unknown = schema.value;
+        if (typeof literal === 'number' || typeof literal === 'boolean') {
+            return coerceEnvValue(
+                value,
+                typeof literal === 'number' ? z.number() : z.boolean(),
+            );
+        }
+        return value;
+    }
+    if (schema instanceof z.ZodArray) {
+        const items: unknown = trimmed.startsWith('[')
+            ? parseJson(trimmed)
+            : trimmed.split(',').map((item) => item.trim());
+        if (!Array.isArray(items)) return items;
+        return items.map((item: unknown) =>
+            typeof item === 'string'
+                ? coerceEnvValue(item, schema.element)
+                : item,
+        );
+    }
+    if (
+        schema instanceof z.ZodObject ||
+        schema instanceof z.ZodRecord ||
+        schema instanceof z.ZodTuple
+    ) {
+        return parseJson(trimmed);
+    }
+    if (
+        schema instanceof z.ZodUnion ||
+        schema instanceof z.ZodDiscriminatedUnion
+    ) {
+        // Use the first option that accepts the coerced value.
+        for (const option of schema.options as z.ZodTypeAny[]) {
+            try {
+                const coerced = coerceEnvValue(value, option);
+                if (option.safeParse(coerced).success) return coerced;
+            } catch {
+                // The option can't be coerced, try the next option.
+            }
+        }
+        return value;
+    }
+    return value;
+};
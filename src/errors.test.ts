@@ -1,4 +1,10 @@
-import { AdapterError, NotLoadedError, ParseError, ReadError } from './errors';
+import {
+    AdapterError,
+    NotLoadedError,
+    ParseError,
+    ReadError,
+    ValidationError,
+} from './errors';
 import { describe, expect, it } from '@jest/globals';
 
 describe('Errors', () => {
@@ -37,6 +43,23 @@ describe('Errors', () => {
         const error = new ParseError('Custom message');
         expect(error.message).toBe('Custom message');
     });
+    it('should construct a ParseError with the location of the error', () => {
+        const cause = new SyntaxError('Unexpected token');
+        const error = new ParseError('Custom message', {
+            filePath: 'config.json',
+            line: 2,
+            column: 5,
+            cause,
+            codeFrame: '> 2 | x',
+        });
+        expect(error).toMatchObject({
+            filePath: 'config.json',
+            line: 2,
+            column: 5,
+            cause,
+            codeFrame: '> 2 | x',
+        });
+    });
 
     it('should construct a ReadError', () => {
         const error = new ReadError();
@@ -49,4 +72,57 @@ describe('Errors', () => {
         const error = new ReadError('Custom message');
         expect(error.message).toBe('Custom message');
     });
+
+    it('should construct a ValidationError', () => {
+        const error = new ValidationError();
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error).toBeInstanceOf(Error);
+        expect(error.message).toBe('Configuration is invalid.');
+        expect(error.name).toBe('ValidationError');
+        expect(error.issues).toEqual([]);
+    });
+    it('should construct a ValidationError from zod issues', () => {
+        const error = new ValidationError([
+            { code: 'custom', path: ['db', 'port'], message: 'Invalid port' },
+            { code: 'custom', path: [], message: 'Invalid config' },
+        ]);
+        expect(error.message).toBe(
+            [
+                'Configuration is invalid:',
+                '  - db.port: Invalid port',
+                '  - (root): Invalid config',
+            ].join('\n'),
+        );
+        expect(error.issues).toHaveLength(2);
+    });
+    it('should include the origin and value of issues in the report', () => {
+        const error = new ValidationError([
+            {
+                code: 'custom',
+                path: ['port'],
+                message: 'Expected number, received string',
+                origin: 'env APP_PORT',
+                value: 'abc',
+            },
+            {
+                code: 'custom',
+                path: ['db'],
+                message: 'Invalid db',
+                origin: 'file config.json',
+                value: { host: 'localhost' },
+            },
+        ]);
+        expect(error.report).toBe(
+            [
+                'Configuration is invalid:',
+                "  - port from env APP_PORT='abc': Expected number, received string",
+                '  - db from file config.json={"host":"localhost"}: Invalid db',
+            ].join('\n'),
+        );
+        expect(error.message).toBe(error.report);
+    });
+    it('should construct a ValidationError with custom message', () => {
+        const error = new ValidationError([], 'Custom message');
+        expect(error.message).toBe('Custom message');
+    });
 });
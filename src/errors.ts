@@ -1,3 +1,5 @@
+import type { ZodIssue } from 'zod';
+
 export class AdapterError extends Error {
     constructor(message: string = 'Adapter cannot handle this input type.') {
         super(message);
@@ -12,10 +14,37 @@ export class NotLoadedError extends Error {
     }
 }
 
+/**
+ * Describes where parsing failed. Lines and columns start at 1.
+ */
+export type ParseErrorOptions = {
+    filePath?: string | undefined;
+    line?: number | undefined;
+    column?: number | undefined;
+    // The error thrown by the parser.
+    cause?: unknown;
+    // A snippet of the file pointing at the position of the error.
+    codeFrame?: string | undefined;
+};
+
 export class ParseError extends Error {
-    constructor(message: string = 'Could not parse configuration.') {
+    public readonly filePath: string | undefined;
+    public readonly line: number | undefined;
+    public readonly column: number | undefined;
+    public readonly cause: unknown;
+    public readonly codeFrame: string | undefined;
+
+    constructor(
+        message: string = 'Could not parse configuration.',
+        { filePath, line, column, cause, codeFrame }: ParseErrorOptions = {},
+    ) {
         super(message);
         this.name = 'ParseError';
+        this.filePath = filePath;
+        this.line = line;
+        this.column = column;
+        this.cause = cause;
+        this.codeFrame = codeFrame;
     }
 }
 
@@ -25,3 +54,65 @@ export class ReadError extends Error {
         this.name = 'ReadError';
     }
 }
+
+export type ValidationIssue = ZodIssue & {
+    // Human-readable description of the source that supplied the invalid value.
+    origin?: string | undefined;
+    // The value supplied by the origin.
+    value?: unknown;
+    // The position of the value in the file it was loaded from, or of its closest parent when the value is missing.
+    line?: number | undefined;
+    column?: number | undefined;
+};
+
+export class ValidationError extends Error {
+    public readonly issues: ValidationIssue[];
+
+    constructor(
+        issues: ValidationIssue[] = [],
+        message: string = ValidationError.formatReport(issues),
+    ) {
+        super(message);
+        this.name = 'ValidationError';
+        this.issues = issues;
+    }
+
+    /**
+     * A multi-line report describing every issue and where the invalid value came from.
+     * @returns The formatted report.
+     */
+    public get report(): string {
+        return ValidationError.formatReport(this.issues);
+    }
+
+    private static formatReport(issues: ValidationIssue[]): string {
+        if (!issues.length) return 'Configuration is invalid.';
+        const lines = issues.map(
+            (issue) => `  - ${ValidationError.formatIssue(issue)}`,
+        );
+        return ['Configuration is invalid:', ...lines].join('\n');
+    }
+
+    private static formatIssue({
+        path,
+        message,
+        origin,
+        value,
+        line,
+        column,
+    }: ValidationIssue): string {
+        let description = path.length ? path.join('.') : '(root)';
+        if (origin) description += ` from ${origin}`;
+        if (origin && line !== undefined) description += `:${line}:${column}`;
+        if (value !== undefined)
+            description += `=${ValidationError.formatValue(value)}`;
+        return `${description}: ${message}`;
+    }
+
+    private static formatValue(value: unknown): string {
+        if (typeof value === 'string') return `'${value}'`;
+        if (typeof value !== 'object' || value === null) return String(value);
+        const json = JSON.stringify(value) ?? String(value);
+        return json.length > 50 ? `${json.slice(0, 47)}...` : json;
+    }
+}
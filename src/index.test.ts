@@ -1,19 +1,36 @@
 import {
     Adapter,
     AdapterError,
+    AdapterRegistry,
+    IniAdapter,
+    Json5Adapter,
     JsonAdapter,
     NotLoadedError,
     ObjectAdapter,
     ParseError,
+    PropertiesAdapter,
     ReadError,
+    SecretsDirectoryAdapter,
+    TomlAdapter,
+    ValidationError,
     YamlAdapter,
     ZodConfig,
 } from './';
-import { beforeEach, describe, expect, it, jest } from '@jest/globals';
-import fsPromise, { readFile } from 'fs/promises';
+import {
+    afterEach,
+    beforeEach,
+    describe,
+    expect,
+    it,
+    jest,
+} from '@jest/globals';
+import fsPromise, { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
 import { CustomAdapter } from '../tests/fixtures/customAdapter';
 import dotenv from 'dotenv';
+import { inspect } from 'util';
 import path from 'path';
+import { tmpdir } from 'os';
 import { z } from 'zod';
 
 const schema = {
@@ -36,11 +53,18 @@ describe('ZodConfig', () => {
     it('should export all necessary classes and functions', () => {
         expect(Adapter).toBeDefined();
         expect(AdapterError).toBeDefined();
+        expect(AdapterRegistry).toBeDefined();
+        expect(IniAdapter).toBeDefined();
+        expect(Json5Adapter).toBeDefined();
         expect(JsonAdapter).toBeDefined();
         expect(NotLoadedError).toBeDefined();
         expect(ObjectAdapter).toBeDefined();
         expect(ParseError).toBeDefined();
+        expect(PropertiesAdapter).toBeDefined();
         expect(ReadError).toBeDefined();
+        expect(SecretsDirectoryAdapter).toBeDefined();
+        expect(TomlAdapter).toBeDefined();
+        expect(ValidationError).toBeDefined();
         expect(YamlAdapter).toBeDefined();
         expect(ZodConfig).toBeDefined();
     });
@@ -80,6 +104,91 @@ describe('ZodConfig', () => {
         expect(zodConfig['currentConfigValue']).toEqual(configObject);
     });
 
+    it('should load and merge a list of sources in order', async () => {
+        const configFilePath = path.resolve(
+            __dirname,
+            '../tests/fixtures/test-config.yaml',
+        );
+        const overrideFilePath = path.resolve(
+            __dirname,
+            '../tests/fixtures/test-config.override.json',
+        );
+        await zodConfig.load([configFilePath, overrideFilePath]);
+        expect(zodConfig['currentConfigValue']).toEqual({
+            port: 3000,
+            host: 'remotehost',
+        });
+        zodConfig.loadSync([
+            configFilePath,
+            overrideFilePath,
+            { host: 'localhost' },
+        ]);
+        expect(zodConfig.get('host')).toEqual('localhost');
+    });
+
+    it('should deep merge nested values from multiple sources', () => {
+        const zodConfig = new ZodConfig({
+            schema: (z) => ({
+                db: {
+                    schema: z.object({
+                        port: z.number(),
+                        host: z.string(),
+                    }),
+                },
+            }),
+        });
+        zodConfig.loadSync([
+            { db: { port: 3000, host: 'localhost' } },
+            { db: { host: 'remotehost' } },
+        ]);
+        expect(zodConfig.get('db')).toEqual({ port: 3000, host: 'remotehost' });
+    });
+
+    it('should apply merge strategies declared on properties', () => {
+        const zodConfig = new ZodConfig({
+            schema: (z) => ({
+                db: {
+                    schema: z.object({
+                        hosts: z.array(z.string()),
+                        options: z.record(z.string()),
+                    }),
+                    merge: { hosts: 'concat', options: 'replace' },
+                },
+                plugins: {
+                    schema: z.array(z.object({ name: z.string() })),
+                    merge: { mergeByKey: 'name' },
+                },
+            }),
+        });
+        zodConfig.loadSync([
+            {
+                db: { hosts: ['a'], options: { ssl: 'true' } },
+                plugins: [{ name: 'a' }],
+            },
+            {
+                db: { hosts: ['b'], options: { timeout: '10' } },
+                plugins: [{ name: 'a' }, { name: 'b' }],
+            },
+        ]);
+        expect(zodConfig.get('db')).toEqual({
+            hosts: ['a', 'b'],
+            options: { timeout: '10' },
+        });
+        expect(zodConfig.get('plugins')).toEqual([
+            { name: 'a' },
+            { name: 'b' },
+        ]);
+    });
+
+    it('should reload every source in the list', async () => {
+        const defaults = { port: 3000, host: 'localhost' };
+        const overrides: Record<string, unknown> = {};
+        zodConfig.loadSync([defaults, overrides]);
+        overrides['host'] = 'remotehost';
+        await zodConfig.reload();
+        expect(zodConfig.get('host')).toEqual('remotehost');
+    });
+
     it('should merge environment variables with configuration', () => {
         const configObject = { port: 3000, host: 'localhost' };
         process.env['PORT'] = String(configObject.port);
@@ -91,6 +200,181 @@ describe('ZodConfig', () => {
         delete process.env['HOST'];
     });
 
+    it('should derive environment variable names from the schema shape', () => {
+        process.env['APP_HOST'] = 'remotehost';
+        process.env['APP_DATABASE__POOL__MAX'] = '20';
+        process.env['APP_DATABASE__USER_NAME'] = 'admin';
+        process.env['APP_NAME'] = 'ignored';
+        const zodConfig = new ZodConfig({
+            schema: (z) => ({
+                host: z.string(),
+                name: { schema: z.string(), env: null },
+                database: z.object({
+                    userName: z.string(),
+                    pool: z.object({ max: z.coerce.number() }),
+                }),
+            }),
+            autoEnv: { prefix: 'APP_' },
+        });
+        zodConfig.loadSync({
+            name: 'app',
+            database: { userName: 'user', pool: { max: 10 } },
+        });
+        delete process.env['APP_HOST'];
+        delete process.env['APP_DATABASE__POOL__MAX'];
+        delete process.env['APP_DATABASE__USER_NAME'];
+        delete process.env['APP_NAME'];
+        expect(zodConfig.get('host')).toEqual('remotehost');
+        expect(zodConfig.get('name')).toEqual('app');
+        expect(zodConfig.get('database')).toEqual({
+            userName: 'admin',
+            pool: { max: 20 },
+        });
+        expect(zodConfig.explain('database.pool.max')).toEqual({
+            'database.pool.max': {
+                type: 'env',
+                variable: 'APP_DATABASE__POOL__MAX',
+            },
+        });
+    });
+
+    it('should prefer explicit environment variable names over derived names', () => {
+        process.env['PORT'] = '4000';
+        process.env['APP_PORT'] = '5000';
+        const zodConfig = new ZodConfig({
+            schema: (z) => ({
+                port: { schema: z.coerce.number(), env: 'PORT' },
+            }),
+            autoEnv: { prefix: 'APP_' },
+        });
+        zodConfig.loadSync({ port: 3000 });
+        delete process.env['PORT'];
+        delete process.env['APP_PORT'];
+        expect(zodConfig.get('port')).toEqual(4000);
+    });
+
+    it('should coerce environment variables to the type of the schema', () => {
+        process.env['PORT'] = '4000';
+        process.env['TLS'] = 'false';
+        process.env['HOSTS'] = 'a,b';
+        process.env['DATABASE'] = '{"user":"admin"}';
+        const zodConfig = new ZodConfig({
+            schema: (z) => ({
+                port: { schema: z.number(), env: 'PORT' },
+                tls: { schema: z.boolean(), env: 'TLS' },
+                hosts: { schema: z.array(z.string()), env: 'HOSTS' },
+                database: {
+                    schema: z.object({ user: z.string() }),
+                    env: 'DATABASE',
+                },
+            }),
+        });
+        zodConfig.loadSync({ tls: true });
+        delete process.env['PORT'];
+        delete process.env['TLS'];
+        delete process.env['HOSTS'];
+        delete process.env['DATABASE'];
+        expect(zodConfig.get('port')).toBe(4000);
+        expect(zodConfig.get('tls')).toBe(false);
+        expect(zodConfig.get('hosts')).toEqual(['a', 'b']);
+        expect(zodConfig.get('database')).toEqual({ user: 'admin' });
+    });
+
+    it('should report environment variables that are not valid JSON', () => {
+        process.env['DATABASE'] = '{user';
+        const zodConfig = new ZodConfig({
+            schema: (z) => ({
+                database: {
+                    schema: z.object({ user: z.string() }),
+                    env: 'DATABASE',
+                },
+            }),
+        });
+        let thrownError: unknown;
+        try {
+            zodConfig.loadSync({});
+        } catch (error) {
+            thrownError = error;
+        }
+        delete process.env['DATABASE'];
+        expect(thrownError).toBeInstanceOf(ValidationError);
+        expect((thrownError as ValidationError).report).toContain(
+            "database from env DATABASE='{user': Could not parse JSON.",
+        );
+    });
+
+    it('should fall back to environment variable aliases', () => {
+        const logger = jest.fn();
+        const zodConfig = new ZodConfig({
+            schema: (z) => ({
+                url: {
+                    schema: z.string(),
+                    env: [
+                        'DATABASE_URL',
+                        { name: 'DB_URL', deprecated: true },
+                        {
+                            name: 'DB',
+                            deprecated: 'DB is no longer read in 2.0.',
+                        },
+                    ],
+                },
+            }),
+            logger,
+        });
+        process.env['DB_URL'] = 'postgres://legacy';
+        process.env['DB'] = 'postgres://oldest';
+        zodConfig.loadSync({});
+        zodConfig.loadSync({});
+        expect(zodConfig.get('url')).toEqual('postgres://legacy');
+        expect(zodConfig.explain('url')).toEqual({
+            url: { type: 'env', variable: 'DB_URL' },
+        });
+        process.env['DATABASE_URL'] = 'postgres://current';
+        zodConfig.loadSync({});
+        expect(zodConfig.get('url')).toEqual('postgres://current');
+        delete process.env['DATABASE_URL'];
+        delete process.env['DB_URL'];
+        zodConfig.loadSync({});
+        delete process.env['DB'];
+        expect(zodConfig.get('url')).toEqual('postgres://oldest');
+        const warnings = logger.mock.calls.filter(
+            ([, level]) => level === 'warn',
+        );
+        expect(warnings).toEqual([
+            [
+                'Environment variable DB_URL is deprecated. Use DATABASE_URL instead.',
+                'warn',
+            ],
+            [
+                'Environment variable DB is deprecated. DB is no longer read in 2.0.',
+                'warn',
+            ],
+        ]);
+    });
+
+    it('should report invalid nested environment variables', () => {
+        process.env['DATABASE__POOL__MAX'] = 'abc';
+        const zodConfig = new ZodConfig({
+            schema: (z) => ({
+                database: z.object({ pool: z.object({ max: z.number() }) }),
+            }),
+            autoEnv: true,
+        });
+        let thrownError: unknown;
+        try {
+            zodConfig.loadSync({ database: { pool: { max: 10 } } });
+        } catch (error) {
+            thrownError = error;
+        }
+        delete process.env['DATABASE__POOL__MAX'];
+        expect(thrownError).toBeInstanceOf(ValidationError);
+        expect((thrownError as ValidationError).issues[0]).toMatchObject({
+            path: ['database', 'pool', 'max'],
+            origin: 'env DATABASE__POOL__MAX',
+            value: 'abc',
+        });
+    });
+
     it('should throw an error if the configuration file cannot be read', async () => {
         const invalidFilePath = path.resolve(
             __dirname,
@@ -122,7 +406,118 @@ describe('ZodConfig', () => {
 
     it('should throw an error if the configuration is not valid', () => {
         const configObject = { port: 'invalid', host: 'localhost' };
-        expect(() => zodConfig.loadSync(configObject)).toThrow(z.ZodError);
+        expect(() => zodConfig.loadSync(configObject)).toThrow(ValidationError);
+    });
+
+    it('should report the origin of invalid values', () => {
+        const configFilePath = path.resolve(
+            __dirname,
+            '../tests/fixtures/test-config.json',
+        );
+        const zodConfig = new ZodConfig({
+            schema: (z) => ({
+                port: z.number().max(1000),
+                host: z.string().max(5),
+                name: z.string(),
+            }),
+        });
+        expect(() =>
+            zodConfig.loadSync([configFilePath, { name: 'app' }]),
+        ).toThrow(
+            [
+                'Configuration is invalid:',
+                `  - port from file ${configFilePath}:2:5=3000: Number must be less than or equal to 1000`,
+                `  - host from file ${configFilePath}:3:5='localhost': String must contain at most 5 character(s)`,
+            ].join('\n'),
+        );
+    });
+
+    it('should report the line of invalid and missing values in YAML files', () => {
+        const configFilePath = path.resolve(
+            __dirname,
+            '../tests/fixtures/test-config.yaml',
+        );
+        const zodConfig = new ZodConfig({
+            schema: (z) => ({
+                port: z.number(),
+                host: z.object({ name: z.string() }),
+            }),
+        });
+        let thrownError: unknown;
+        try {
+            zodConfig.loadSync(configFilePath);
+        } catch (error) {
+            thrownError = error;
+        }
+        expect((thrownError as ValidationError).issues[0]).toMatchObject({
+            path: ['host'],
+            origin: `file ${configFilePath}`,
+            line: 2,
+            column: 1,
+        });
+    });
+
+    it('should throw a ParseError pointing at the invalid content of a file', async () => {
+        const directory = await mkdtemp(path.join(tmpdir(), 'zod-figure-'));
+        const configFilePath = path.join(directory, 'config.json');
+        await writeFile(configFilePath, '{\n    "port": 3000,\n}');
+        let thrownError: unknown;
+        try {
+            await zodConfig.load(configFilePath);
+        } catch (error) {
+            thrownError = error;
+        }
+        await rm(directory, { recursive: true, force: true });
+        expect(thrownError).toBeInstanceOf(ParseError);
+        expect(thrownError).toMatchObject({
+            // The reason is the message of the JSON parser, which differs between Node versions.
+            message: expect.stringContaining(
+                `Could not parse JSON file ${configFilePath} at line 3, column 1: `,
+            ),
+            filePath: configFilePath,
+            line: 3,
+            column: 1,
+            cause: expect.any(SyntaxError),
+            codeFrame: [
+                '  1 | {',
+                '  2 |     "port": 3000,',
+                '> 3 | }',
+                '    | ^',
+            ].join('\n'),
+        });
+    });
+
+    it('should report invalid environment variables with their raw value', () => {
+        process.env['PORT'] = 'abc';
+        const zodConfig = new ZodConfig({
+            schema: (z) => ({
+                port: { schema: z.number(), env: 'PORT' },
+            }),
+        });
+        let thrownError: unknown;
+        try {
+            zodConfig.loadSync({ port: 3000 });
+        } catch (error) {
+            thrownError = error;
+        }
+        delete process.env['PORT'];
+        expect(thrownError).toBeInstanceOf(ValidationError);
+        expect((thrownError as ValidationError).issues[0]).toMatchObject({
+            path: ['port'],
+            origin: 'env PORT',
+            value: 'abc',
+        });
+    });
+
+    it('should report the closest origin for missing nested values', () => {
+        const zodConfig = new ZodConfig({
+            schema: (z) => ({
+                db: z.object({ host: z.string(), port: z.number() }),
+            }),
+        });
+        expect(() =>
+            zodConfig.loadSync([{ db: { port: 1 } }, { db: { port: 2 } }]),
+        ).toThrow('db.host from object at source index 1: Required');
     });
 
     it('should get simple values correctly', () => {
@@ -158,6 +553,59 @@ describe('ZodConfig', () => {
         expect(zodConfig.get('host')).toEqual('remotehost');
     });
 
+    it('should throw a ValidationError when setting an invalid value', () => {
+        const listener = jest.fn();
+        zodConfig.loadSync({ port: 3000, host: 'localhost' });
+        zodConfig.addListener('host', listener);
+        // @ts-expect-error Invalid value type.
+        expect(() => zodConfig.set('host', 3000)).toThrow(ValidationError);
+        expect(zodConfig.get('host')).toEqual('localhost');
+        expect(listener).not.toBeCalled();
+    });
+
+    it('should include the zod issues in the ValidationError', () => {
+        zodConfig.loadSync({ port: 3000, host: 'localhost' });
+        try {
+            // @ts-expect-error Invalid value type.
+            zodConfig.set('host', 3000);
+        } catch (error) {
+            expect(error).toBeInstanceOf(ValidationError);
+            expect((error as ValidationError).issues).toEqual([
+                expect.objectContaining({
+                    code: 'invalid_type',
+                    path: ['host'],
+                }),
+            ]);
+        }
+        expect.assertions(2);
+    });
+
+    it('should validate refinements across keys when setting values', () => {
+        const zodConfig = new ZodConfig({
+            schema: (z) => ({
+                min: z.number(),
+                max: z.number(),
+            }),
+            refine: (value, ctx) => {
+                if (value.min > value.max) {
+                    ctx.addIssue({
+                        code: z.ZodIssueCode.custom,
+                        message: 'min must not exceed max',
+                        path: ['min'],
+                    });
+                }
+            },
+        });
+        zodConfig.loadSync({ min: 1, max: 10 });
+        expect(() => zodConfig.set('min', 20)).toThrow(ValidationError);
+        expect(zodConfig.get('min')).toEqual(1);
+        zodConfig.set('min', 5);
+        expect(zodConfig.get('min')).toEqual(5);
+        expect(() => zodConfig.loadSync({ min: 20, max: 10 })).toThrow(
+            ValidationError,
+        );
+    });
+
     it('should clone the configuration object when getting values', () => {
         const zodConfig = new ZodConfig({
             schema: (z) => ({
@@ -199,6 +647,640 @@ describe('ZodConfig', () => {
         expect(zodConfig.get('db').host).toEqual('remotehost');
     });
 
+    it('should not read values from the prototype of loaded objects', () => {
+        const zodConfig = new ZodConfig({
+            schema: { admin: { schema: z.boolean().default(false) } },
+        });
+        zodConfig.loadSync([
+            {},
+            JSON.parse('{ "__proto__": { "admin": true } }') as Record<
+                string,
+                unknown
+            >,
+        ]);
+        expect(zodConfig.get('admin')).toBe(false);
+    });
+
+    describe('nested paths', () => {
+        const createNestedConfig = () => {
+            const zodConfig = new ZodConfig({
+                schema: (z) => ({
+                    database: {
+                        schema: z.object({
+                            host: z.string(),
+                            pool: z.object({
+                                min: z.number(),
+                                max: z.number().max(100),
+                            }),
+                        }),
+                    },
+                    name: z.string(),
+                }),
+            });
+            zodConfig.loadSync({
+                database: { host: 'localhost', pool: { min: 1, max: 10 } },
+                name: 'app',
+            });
+            return zodConfig;
+        };
+
+        it('should get nested values using a dot path', () => {
+            const zodConfig = createNestedConfig();
+            const max: number = zodConfig.get('database.pool.max');
+            expect(max).toEqual(10);
+            expect(zodConfig.get('database.pool')).toEqual({ min: 1, max: 10 });
+            // @ts-expect-error Path does not exist in the schema.
+            expect(zodConfig.get('database.pool.size')).toBeUndefined();
+        });
+
+        it('should set nested values using a dot path', () => {
+            const zodConfig = createNestedConfig();
+            zodConfig.set('database.pool.max', 20);
+            expect(zodConfig.get('database')).toEqual({
+                host: 'localhost',
+                pool: { min: 1, max: 20 },
+            });
+        });
+
+        it('should validate the touched subtree when setting nested values', () => {
+            const zodConfig = createNestedConfig();
+            expect(() => zodConfig.set('database.pool.max', 200)).toThrow(
+                ValidationError,
+            );
+            expect(zodConfig.get('database.pool.max')).toEqual(10);
+        });
+
+        it('should only run listeners when their nested path changes', () => {
+            const zodConfig = createNestedConfig();
+            const maxListener = jest.fn();
+            const minListener = jest.fn();
+            const databaseListener = jest.fn();
+            zodConfig.addListener('database.pool.max', maxListener);
+            zodConfig.addListener('database.pool.min', minListener);
+            zodConfig.addListener('database', databaseListener);
+            zodConfig.set('database.pool.max', 20);
+            expect(maxListener).toBeCalledWith(20, 10);
+            expect(minListener).not.toBeCalled();
+            expect(databaseListener).toBeCalledTimes(1);
+        });
+
+        it('should run nested listeners on reload', async () => {
+            const configObject = {
+                database: { host: 'localhost', pool: { min: 1, max: 10 } },
+                name: 'app',
+            };
+            const zodConfig = createNestedConfig();
+            zodConfig.loadSync(configObject);
+            const hostListener = jest.fn();
+            const maxListener = jest.fn();
+            zodConfig.addListener('database.host', hostListener);
+            zodConfig.addListener('database.pool.max', maxListener);
+            configObject.database.host = 'remotehost';
+            await zodConfig.reload();
+            expect(hostListener).toBeCalledWith('remotehost', 'localhost');
+            expect(maxListener).not.toBeCalled();
+        });
+    });
+
+    describe('listeners', () => {
+        const createConfig = () => {
+            const zodConfig = new ZodConfig({
+                schema: (z) => ({
+                    host: z.string(),
+                    port: z.number(),
+                    db: z.object({ pool: z.object({ max: z.number() }) }),
+                }),
+            });
+            zodConfig.loadSync({
+                host: 'localhost',
+                port: 3000,
+                db: { pool: { max: 10 } },
+            });
+            return zodConfig;
+        };
+
+        it('should type listeners by the value at their path', () => {
+            const zodConfig = createConfig();
+            zodConfig.addListener('db.pool.max', (newValue: number) => {
+                expect(newValue).toEqual(20);
+            });
+            // @ts-expect-error The value at the path is a number.
+            zodConfig.addListener('db.pool.max', (newValue: string) => {
+                expect(newValue).toEqual(20);
+            });
+            zodConfig.set('db.pool.max', 20);
+        });
+
+        it('should return a function that removes the listener', () => {
+            const zodConfig = createConfig();
+            const listener = jest.fn();
+            const remove = zodConfig.addListener('host', listener);
+            remove();
+            zodConfig.set('host', 'remotehost');
+            expect(listener).not.toBeCalled();
+        });
+
+        it('should only remove the registration a returned function belongs to', () => {
+            const zodConfig = createConfig();
+            const listener = jest.fn();
+            const remove = zodConfig.addListener('host', listener);
+            zodConfig.addListener('host', listener, { priority: 1 });
+            remove();
+            zodConfig.set('host', 'remotehost');
+            expect(listener).toBeCalledTimes(1);
+        });
+
+        it('should remove listeners', () => {
+            const zodConfig = createConfig();
+            const listener = jest.fn();
+            const otherListener = jest.fn();
+            zodConfig.addListener('host', listener);
+            zodConfig.addListener('host', otherListener);
+            zodConfig.removeListener('host', listener);
+            zodConfig.set('host', 'remotehost');
+            expect(listener).not.toBeCalled();
+            expect(otherListener).toBeCalledWith('remotehost', 'localhost');
+        });
+
+        it('should forget a key once its last listener is removed', () => {
+            const zodConfig = createConfig();
+            const listener = jest.fn();
+            zodConfig.addListener('host', listener);
+            zodConfig.addListener('port', listener, { once: true });
+            zodConfig.removeListener('host', listener);
+            zodConfig.set('port', 4000);
+            expect(zodConfig['listenerMap']).toEqual({});
+        });
+
+        it('should remove all listeners of a key or of all keys', () => {
+            const zodConfig = createConfig();
+            const hostListener = jest.fn();
+            const portListener = jest.fn();
+            const wildcardListener = jest.fn();
+            zodConfig.addListener('host', hostListener);
+            zodConfig.addListener('port', portListener);
+            zodConfig.addListener('*', wildcardListener);
+            zodConfig.removeAllListeners('host');
+            zodConfig.set('host', 'remotehost');
+            zodConfig.set('port', 3001);
+            expect(hostListener).not.toBeCalled();
+            expect(portListener).toBeCalledTimes(1);
+            expect(wildcardListener).toBeCalledTimes(2);
+
+            zodConfig.removeAllListeners();
+            zodConfig.set('port', 3002);
+            expect(portListener).toBeCalledTimes(1);
+            expect(wildcardListener).toBeCalledTimes(2);
+        });
+
+        it('should only call once listeners a single time', () => {
+            const zodConfig = createConfig();
+            const listener = jest.fn();
+            zodConfig.addListener('host', listener, { once: true });
+            zodConfig.set('host', 'remotehost');
+            zodConfig.set('host', 'anotherhost');
+            expect(listener).toBeCalledTimes(1);
+            expect(listener).toBeCalledWith('remotehost', 'localhost');
+        });
+
+        it('should call wildcard listeners with every changed value', async () => {
+            const configObject = {
+                host: 'localhost',
+                port: 3000,
+                db: { pool: { max: 10 } },
+            };
+            const zodConfig = createConfig();
+            zodConfig.loadSync(configObject);
+            const listener = jest.fn();
+            zodConfig.addListener('*', listener);
+            configObject.port = 3001;
+            configObject.db.pool.max = 20;
+            await zodConfig.reload();
+            expect(listener).toBeCalledTimes(1);
+            expect(listener).toBeCalledWith([
+                { path: 'port', newValue: 3001, oldValue: 3000 },
+                { path: 'db.pool.max', newValue: 20, oldValue: 10 },
+            ]);
+            await zodConfig.reload();
+            expect(listener).toBeCalledTimes(1);
+        });
+
+        it('should isolate errors thrown by listeners', async () => {
+            const zodConfig = createConfig();
+            const error = new Error('Listener failed.');
+            const onListenerError = jest.fn();
+            const listener = jest.fn();
+            zodConfig.on('listenerError', onListenerError);
+            zodConfig.addListener('host', () => {
+                throw error;
+            });
+            zodConfig.addListener('host', () => Promise.reject(error));
+            zodConfig.addListener('host', listener);
+            await zodConfig.load({
+                host: 'remotehost',
+                port: 3000,
+                db: { pool: { max: 10 } },
+            });
+            expect(listener).toBeCalledWith('remotehost', 'localhost');
+            expect(zodConfig.get('host')).toEqual('remotehost');
+            expect(onListenerError).toBeCalledTimes(2);
+            expect(onListenerError).toBeCalledWith(error, 'host');
+        });
+
+        it('should call listeners in order of priority', () => {
+            const zodConfig = createConfig();
+            const order: string[] = [];
+            zodConfig.addListener('*', () => order.push('wildcard'));
+            zodConfig.addListener('host', () => order.push('metrics'));
+            zodConfig.addListener('host', () => order.push('pool'), {
+                priority: 10,
+            });
+            zodConfig.set('host', 'remotehost');
+            expect(order).toEqual(['pool', 'metrics', 'wildcard']);
+        });
+
+        it('should not await listeners by default', async () => {
+            const zodConfig = createConfig();
+            let done = false;
+            zodConfig.addListener('host', async () => {
+                await new Promise<void>((resolve) => setImmediate(resolve));
+                done = true;
+            });
+            await zodConfig.load({
+                host: 'remotehost',
+                port: 3000,
+                db: { pool: { max: 10 } },
+            });
+            expect(done).toBe(false);
+        });
+
+        describe('awaiting listeners', () => {
+            const tick = () => Promise.resolve();
+            const createAwaitingConfig = (
+                awaitListeners: 'sequential' | 'parallel',
+            ) => {
+                const zodConfig = new ZodConfig({
+                    schema: (z) => ({ host: z.string() }),
+                    awaitListeners,
+                });
+                zodConfig.loadSync({ host: 'localhost' });
+                return zodConfig;
+            };
+            const addListeners = (
+                zodConfig: ReturnType<typeof createAwaitingConfig>,
+                order: string[],
+            ) => {
+                zodConfig.addListener(
+                    'host',
+                    async () => {
+                        order.push('a:start');
+                        await tick();
+                        await tick();
+                        order.push('a:end');
+                    },
+                    { priority: 1 },
+                );
+                zodConfig.addListener(
+                    'host',
+                    async () => {
+                        order.push('b:start');
+                        await tick();
+                        order.push('b:end');
+                    },
+                    { priority: 1 },
+                );
+                zodConfig.addListener('host', () => order.push('c'));
+            };
+
+            it('should await listeners one after another', async () => {
+                const zodConfig = createAwaitingConfig('sequential');
+                const order: string[] = [];
+                addListeners(zodConfig, order);
+                await zodConfig.load({ host: 'remotehost' });
+                expect(order).toEqual([
+                    'a:start',
+                    'a:end',
+                    'b:start',
+                    'b:end',
+                    'c',
+                ]);
+            });
+
+            it('should await listeners with the same priority in parallel', async () => {
+                const zodConfig = createAwaitingConfig('parallel');
+                const order: string[] = [];
+                addListeners(zodConfig, order);
+                await zodConfig.load({ host: 'remotehost' });
+                expect(order).toEqual([
+                    'a:start',
+                    'b:start',
+                    'b:end',
+                    'a:end',
+                    'c',
+                ]);
+            });
+
+            it('should await listeners when reloading', async () => {
+                const configObject = { host: 'localhost' };
+                const zodConfig = createAwaitingConfig('sequential');
+                zodConfig.loadSync(configObject);
+                const order: string[] = [];
+                addListeners(zodConfig, order);
+                configObject.host = 'remotehost';
+                await zodConfig.reload();
+                expect(order).toHaveLength(5);
+            });
+        });
+    });
+
+    describe('batch updates', () => {
+        const createConfig = () => {
+            const zodConfig = new ZodConfig({
+                schema: (z) => ({
+                    host: z.string(),
+                    port: z.number(),
+                    tls: z.boolean(),
+                    db: z.object({ pool: z.object({ max: z.number() }) }),
+                }),
+                refine: (value, ctx) => {
+                    if (value.tls && value.port !== 443) {
+                        ctx.addIssue({
+                            code: 'custom',
+                            path: ['port'],
+                            message: 'TLS requires port 443.',
+                        });
+                    }
+                },
+            });
+            zodConfig.loadSync({
+                host: 'localhost',
+                port: 80,
+                tls: false,
+                db: { pool: { max: 10 } },
+            });
+            return zodConfig;
+        };
+
+        it('should set multiple values at once', () => {
+            const zodConfig = createConfig();
+            const onChange = jest.fn();
+            const wildcardListener = jest.fn();
+            const portListener = jest.fn();
+            zodConfig.on('change', onChange);
+            zodConfig.addListener('*', wildcardListener);
+            zodConfig.addListener('port', portListener);
+            zodConfig.setMany({
+                host: 'remotehost',
+                port: 443,
+                tls: true,
+                'db.pool.max': 20,
+            });
+            expect(zodConfig.get('tls')).toBe(true);
+            expect(zodConfig.get('db.pool.max')).toEqual(20);
+            expect(portListener).toBeCalledWith(443, 80);
+            expect(wildcardListener).toBeCalledTimes(1);
+            expect(wildcardListener.mock.calls[0]?.[0]).toHaveLength(4);
+            expect(onChange).toBeCalledTimes(1);
+            expect(onChange).toBeCalledWith(
+                expect.objectContaining({
+                    changedKeys: ['host', 'port', 'tls', 'db'],
+                }),
+            );
+            expect(zodConfig.explain('db.pool.max')).toEqual({
+                'db.pool.max': { type: 'set' },
+            });
+        });
+
+        it('should not set any value when the result is invalid', () => {
+            const zodConfig = createConfig();
+            const listener = jest.fn();
+            zodConfig.addListener('*', listener);
+            expect(() =>
+                zodConfig.setMany({ host: 'remotehost', tls: true }),
+            ).toThrow(ValidationError);
+            expect(zodConfig.get('host')).toEqual('localhost');
+            expect(zodConfig.get('tls')).toBe(false);
+            expect(listener).not.toBeCalled();
+        });
+
+        it('should apply the changes of a transaction at once', () => {
+            const zodConfig = createConfig();
+            const listener = jest.fn();
+            zodConfig.addListener('*', listener);
+            zodConfig.transaction((draft) => {
+                draft.set('tls', true);
+                draft.set('port', 443);
+                draft.set('db.pool.max', draft.get('db.pool.max') * 2);
+                expect(draft.get('port')).toEqual(443);
+                expect(zodConfig.get('port')).toEqual(80);
+            });
+            expect(zodConfig.get('port')).toEqual(443);
+            expect(zodConfig.get('db.pool.max')).toEqual(20);
+            expect(listener).toBeCalledTimes(1);
+        });
+
+        it('should apply overlapping paths of a transaction in the order they were set', () => {
+            const zodConfig = createConfig();
+            zodConfig.transaction((draft) => {
+                draft.set('db.pool.max', 20);
+                draft.set('db', { pool: { max: 30 } });
+                draft.set('db.pool.max', 40);
+                expect(draft.get('db.pool.max')).toEqual(40);
+            });
+            expect(zodConfig.get('db.pool.max')).toEqual(40);
+        });
+
+        it('should roll back a transaction that fails', () => {
+            const zodConfig = createConfig();
+            const listener = jest.fn();
+            const error = new Error('Transaction failed.');
+            zodConfig.addListener('*', listener);
+            expect(() =>
+                zodConfig.transaction((draft) => {
+                    draft.set('port', 443);
+                    throw error;
+                }),
+            ).toThrow(error);
+            expect(() =>
+                zodConfig.transaction((draft) => {
+                    draft.set('host', 'remotehost');
+                    draft.set('tls', true);
+                }),
+            ).toThrow(ValidationError);
+            expect(zodConfig.get('port')).toEqual(80);
+            expect(zodConfig.get('host')).toEqual('localhost');
+            expect(listener).not.toBeCalled();
+        });
+    });
+
+    describe('events', () => {
+        it('should emit load and reload events', async () => {
+            const onLoad = jest.fn();
+            const onReload = jest.fn();
+            zodConfig.on('load', onLoad);
+            zodConfig.on('reload', onReload);
+            zodConfig.loadSync({ port: 3000, host: 'localhost' });
+            expect(onLoad).toBeCalledWith({ port: 3000, host: 'localhost' });
+            expect(onReload).not.toBeCalled();
+            await zodConfig.reload();
+            expect(onLoad).toBeCalledTimes(2);
+            expect(onReload).toBeCalledWith({ port: 3000, host: 'localhost' });
+        });
+
+        it('should emit a single change event with all changed keys', async () => {
+            const onChange = jest.fn();
+            const configObject = { port: 3000, host: 'localhost' };
+            zodConfig.on('change', onChange);
+            zodConfig.loadSync(configObject);
+            expect(onChange).not.toBeCalled();
+            configObject.port = 4000;
+            configObject.host = 'remotehost';
+            await zodConfig.reload();
+            expect(onChange).toBeCalledTimes(1);
+            expect(onChange).toBeCalledWith({
+                changedKeys: ['port', 'host'],
+                newValue: { port: 4000, host: 'remotehost' },
+                oldValue: { port: 3000, host: 'localhost' },
+            });
+        });
+
+        it('should emit set and change events when setting values', () => {
+            const onSet = jest.fn();
+            const onChange = jest.fn();
+            zodConfig.loadSync({ port: 3000, host: 'localhost' });
+            zodConfig.on('set', onSet);
+            zodConfig.on('change', onChange);
+            zodConfig.set('host', 'remotehost');
+            expect(onSet).toBeCalledWith('host', 'remotehost', 'localhost');
+            expect(onChange).toBeCalledWith(
+                expect.objectContaining({ changedKeys: ['host'] }),
+            );
+        });
+
+        it('should emit validationError events', () => {
+            const onValidationError = jest.fn();
+            zodConfig.on('validationError', onValidationError);
+            expect(() =>
+                zodConfig.loadSync({ port: 'invalid', host: 'localhost' }),
+            ).toThrow(ValidationError);
+            zodConfig.loadSync({ port: 3000, host: 'localhost' });
+            // @ts-expect-error Invalid value type.
+            expect(() => zodConfig.set('host', 3000)).toThrow(ValidationError);
+            expect(onValidationError).toBeCalledTimes(2);
+            expect(onValidationError).toBeCalledWith(
+                expect.any(ValidationError),
+            );
+        });
+
+        it('should support once and off', () => {
+            const onceHandler = jest.fn();
+            const handler = jest.fn();
+            zodConfig.once('load', onceHandler);
+            zodConfig.on('load', handler);
+            zodConfig.loadSync({ port: 3000, host: 'localhost' });
+            zodConfig.off('load', handler);
+            zodConfig.loadSync({ port: 3000, host: 'localhost' });
+            expect(onceHandler).toBeCalledTimes(1);
+            expect(handler).toBeCalledTimes(1);
+        });
+
+        it('should return a function that removes the handler', () => {
+            const handler = jest.fn();
+            const remove = zodConfig.on('load', handler);
+            remove();
+            zodConfig.loadSync({ port: 3000, host: 'localhost' });
+            expect(handler).not.toBeCalled();
+        });
+    });
+
+    describe('provenance', () => {
+        const createConfig = () =>
+            new ZodConfig({
+                schema: (z) => ({
+                    port: { schema: z.coerce.number(), env: 'PORT' },
+                    host: z.string(),
+                    db: z.object({
+                        user: z.string().default('admin'),
+                        pool: z.object({ max: z.number() }),
+                    }),
+                }),
+            });
+
+        it('should attribute values dropped by a replace merge strategy to the schema default', () => {
+            const zodConfig = new ZodConfig({
+                schema: {
+                    db: {
+                        schema: z.object({
+                            host: z.string(),
+                            port: z.number().default(5432),
+                        }),
+                        merge: 'replace',
+                    },
+                },
+            });
+            zodConfig.loadSync([
+                { db: { host: 'a', port: 1 } },
+                { db: { host: 'b' } },
+            ]);
+            expect(zodConfig.get('db.port')).toEqual(5432);
+            expect(zodConfig.explain('db')).toEqual({
+                'db.host': { type: 'object', index: 1 },
+                'db.port': { type: 'default' },
+            });
+        });
+
+        it('should explain where each value came from', () => {
+            const configFilePath = path.resolve(
+                __dirname,
+                '../tests/fixtures/test-config.json',
+            );
+            process.env['PORT'] = '4000';
+            const zodConfig = createConfig();
+            zodConfig.loadSync([configFilePath, { db: { pool: { max: 1 } } }]);
+            delete process.env['PORT'];
+            expect(zodConfig.getProvenance()).toEqual({
+                port: { type: 'env', variable: 'PORT' },
+                host: {
+                    type: 'file',
+                    path: configFilePath,
+                    adapter: 'JsonAdapter',
+                },
+                'db.user': { type: 'default' },
+                'db.pool.max': { type: 'object', index: 1 },
+            });
+            expect(zodConfig.explain('db')).toEqual({
+                'db.user': { type: 'default' },
+                'db.pool.max': { type: 'object', index: 1 },
+            });
+            expect(zodConfig.explain('port')).toEqual({
+                port: { type: 'env', variable: 'PORT' },
+            });
+        });
+
+        it('should attribute values changed with set', () => {
+            const zodConfig = createConfig();
+            zodConfig.loadSync({
+                port: 3000,
+                host: 'localhost',
+                db: { pool: { max: 1 } },
+            });
+            zodConfig.set('db.pool', { max: 2 });
+            expect(zodConfig.explain('db')).toEqual({
+                'db.user': { type: 'default' },
+                'db.pool.max': { type: 'set' },
+            });
+            expect(zodConfig.explain('host')).toEqual({
+                host: { type: 'object', index: 0 },
+            });
+        });
+
+        it('should throw a NotLoadedError when explaining before loading', () => {
+            expect(() => createConfig().getProvenance()).toThrow(
+                NotLoadedError,
+            );
+        });
+    });
+
     it('should run listeners correctly', () => {
         const listener = jest.fn();
         const configObject = { port: 3000, host: 'localhost' };
@@ -272,6 +1354,95 @@ describe('ZodConfig', () => {
         expect(zodConfig.get('host')).toEqual('remotehost');
     });
 
+    it('should keep the previous configuration when reloading fails', () => {
+        jest.useFakeTimers();
+        const onReloadError = jest.fn();
+        const logger = jest.fn();
+        const zodConfig = new ZodConfig({
+            schema,
+            reloadIntervalMs: 100,
+            logger,
+        });
+        zodConfig.on('reloadError', onReloadError);
+        const configObject: Record<string, unknown> = {
+            port: 3000,
+            host: 'localhost',
+        };
+        zodConfig.loadSync(configObject);
+        configObject['port'] = 'invalid';
+        configObject['host'] = 'remotehost';
+        jest.runOnlyPendingTimers();
+        expect(zodConfig.get('host')).toEqual('localhost');
+        expect(onReloadError).toBeCalledWith(expect.any(ValidationError));
+        expect(logger).toBeCalledWith(
+            expect.stringContaining('Could not reload configuration'),
+            'error',
+        );
+        expect(zodConfig.reloadStatus).toMatchObject({
+            consecutiveFailures: 1,
+            lastError: expect.any(ValidationError),
+        });
+        zodConfig.stopReloadInterval();
+    });
+
+    it('should reset the reload status after a successful reload', () => {
+        jest.useFakeTimers();
+        const zodConfig = new ZodConfig({ schema, reloadIntervalMs: 100 });
+        const configObject: Record<string, unknown> = {
+            port: 3000,
+            host: 'localhost',
+        };
+        expect(zodConfig.reloadStatus.lastLoadedAt).toBeNull();
+        zodConfig.loadSync(configObject);
+        const { lastLoadedAt } = zodConfig.reloadStatus;
+        expect(lastLoadedAt).toBeInstanceOf(Date);
+        configObject['port'] = 'invalid';
+        jest.advanceTimersByTime(100);
+        expect(zodConfig.reloadStatus.consecutiveFailures).toEqual(1);
+        expect(zodConfig.reloadStatus.lastLoadedAt).toBe(lastLoadedAt);
+        configObject['port'] = 4000;
+        jest.advanceTimersByTime(100);
+        expect(zodConfig.get('port')).toEqual(4000);
+        expect(zodConfig.reloadStatus).toMatchObject({
+            consecutiveFailures: 0,
+            lastError: null,
+        });
+        zodConfig.stopReloadInterval();
+    });
+
+    it('should stop reloading after the maximum number of consecutive failures', () => {
+        jest.useFakeTimers();
+        const zodConfig = new ZodConfig({
+            schema,
+            reloadIntervalMs: 100,
+            maxReloadFailures: 2,
+        });
+        const configObject: Record<string, unknown> = {
+            port: 3000,
+            host: 'localhost',
+        };
+        zodConfig.loadSync(configObject);
+        configObject['port'] = 'invalid';
+        jest.advanceTimersByTime(200);
+        expect(zodConfig.reloadStatus.consecutiveFailures).toEqual(2);
+        expect(zodConfig['intervalCallback']).toBeNull();
+        configObject['port'] = 4000;
+        jest.advanceTimersByTime(200);
+        expect(zodConfig.get('port')).toEqual(3000);
+    });
+
+    it('should reject a manual reload that fails and keep the previous configuration', async () => {
+        const configObject: Record<string, unknown> = {
+            port: 3000,
+            host: 'localhost',
+        };
+        zodConfig.loadSync(configObject);
+        configObject['port'] = 'invalid';
+        await expect(zodConfig.reload()).rejects.toThrow(ValidationError);
+        expect(zodConfig.get('port')).toEqual(3000);
+        expect(zodConfig.reloadStatus.consecutiveFailures).toEqual(1);
+    });
+
     it('should work with .env files when using dotenv', () => {
         dotenv.config({
             path: path.resolve(__dirname, '../tests/fixtures/test.env'),
@@ -284,6 +1455,153 @@ describe('ZodConfig', () => {
         delete process.env['HOST'];
     });
 
+    describe('environment providers', () => {
+        it('should read environment variables from a record', () => {
+            const zodConfig = new ZodConfig({
+                schema,
+                env: { HOST: 'remotehost', PORT: '4000' },
+            });
+            process.env['HOST'] = 'ignored';
+            zodConfig.loadSync({});
+            delete process.env['HOST'];
+            expect(zodConfig.get('host')).toEqual('remotehost');
+            expect(zodConfig.get('port')).toEqual(4000);
+        });
+
+        it('should call function providers on every (re)load', async () => {
+            let port = 4000;
+            const env = jest.fn(() => ({ HOST: 'localhost', PORT: `${port}` }));
+            const zodConfig = new ZodConfig({ schema, env });
+            zodConfig.loadSync({});
+            port = 5000;
+            await zodConfig.reload();
+            expect(env).toBeCalledTimes(2);
+            expect(zodConfig.get('port')).toEqual(5000);
+        });
+
+        it('should pass the provided environment to the source callback', async () => {
+            const zodConfig = new ZodConfig({ schema });
+            const sources = jest.fn(() => ({ port: 3000 }));
+            await zodConfig.load(sources, {
+                env: async () => ({ HOST: 'tenant-a' }),
+            });
+            expect(sources).toBeCalledWith({ host: 'tenant-a' });
+            expect(zodConfig.get('host')).toEqual('tenant-a');
+        });
+
+        it('should reuse the environment of a load when reloading', async () => {
+            const zodConfig = new ZodConfig({
+                schema,
+                env: { HOST: 'localhost', PORT: '3000' },
+            });
+            await zodConfig.load(
+                {},
+                { env: { HOST: 'tenant-b', PORT: '4000' } },
+            );
+            await zodConfig.reload();
+            expect(zodConfig.get('host')).toEqual('tenant-b');
+        });
+
+        it('should throw a ReadError when loading an async provider synchronously', () => {
+            const zodConfig = new ZodConfig({
+                schema,
+                env: async () => ({ HOST: 'localhost', PORT: '3000' }),
+            });
+            expect(() => zodConfig.loadSync({})).toThrow(ReadError);
+        });
+    });
+
+    it('should read secrets from files', async () => {
+        const directory = await mkdtemp(path.join(tmpdir(), 'zod-figure-'));
+        await writeFile(path.join(directory, 'db_password'), 'secret\n');
+        await writeFile(path.join(directory, 'host'), 'secrethost');
+        const zodConfig = new ZodConfig({
+            schema: (z) => ({
+                host: z.string(),
+                port: z.number(),
+                password: {
+                    schema: z.string(),
+                    env: 'DB_PASSWORD',
+                    envFile: true,
+                },
+            }),
+            env: {
+                DB_PASSWORD_FILE: path.join(directory, 'db_password'),
+            },
+            secretsDirectory: { path: directory, maxBytes: 1024 },
+        });
+        try {
+            await zodConfig.load({ host: 'localhost', port: 3000 });
+            expect(zodConfig.get('password')).toEqual('secret');
+            expect(zodConfig.get('host')).toEqual('secrethost');
+            expect(zodConfig.explain('password')).toEqual({
+                password: { type: 'env', variable: 'DB_PASSWORD_FILE' },
+            });
+            expect(zodConfig.explain('host')).toEqual({
+                host: {
+                    type: 'file',
+                    path: path.join(directory, 'host'),
+                    adapter: 'SecretsDirectoryAdapter',
+                },
+            });
+            zodConfig.loadSync({ host: 'localhost', port: 3000 });
+            expect(zodConfig.get('password')).toEqual('secret');
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('should load .env files without changing process.env', async () => {
+        const directory = await mkdtemp(path.join(tmpdir(), 'zod-figure-'));
+        await writeFile(
+            path.join(directory, '.env'),
+            'HOST=localhost\nPORT=3000',
+        );
+        await writeFile(path.join(directory, '.env.local'), 'PORT=4000');
+        process.env['HOST'] = 'remotehost';
+        const zodConfig = new ZodConfig({
+            schema,
+            dotenv: { path: directory },
+        });
+        const zodConfigPopulatingProcessEnv = new ZodConfig({
+            schema,
+            dotenv: { path: directory, populateProcessEnv: true },
+        });
+        try {
+            zodConfig.loadSync({});
+            expect(zodConfig.get('host')).toEqual('remotehost');
+            expect(zodConfig.get('port')).toEqual(4000);
+            expect(zodConfig.explain('port')).toEqual({
+                port: { type: 'env', variable: 'PORT' },
+            });
+            expect(process.env['PORT']).toBeUndefined();
+
+            zodConfigPopulatingProcessEnv.loadSync({});
+            expect(process.env['PORT']).toEqual('4000');
+            expect(process.env['HOST']).toEqual('remotehost');
+        } finally {
+            delete process.env['HOST'];
+            delete process.env['PORT'];
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('should not let unset injected variables hide values from .env files', async () => {
+        const directory = await mkdtemp(path.join(tmpdir(), 'zod-figure-'));
+        await writeFile(path.join(directory, '.env'), 'PORT=3000');
+        try {
+            const zodConfig = new ZodConfig({
+                schema,
+                dotenv: { path: directory },
+                env: { PORT: undefined, HOST: 'localhost' },
+            });
+            zodConfig.loadSync({});
+            expect(zodConfig.get('port')).toEqual(3000);
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+
     it('should not log when logger is set to false', () => {
         const consoleDebugSpy = getConsoleSpy('debug');
         const zodConfig = new ZodConfig({
@@ -429,6 +1747,268 @@ describe('ZodConfig', () => {
         expect(zodConfig['currentConfigValue']).toEqual(configObject);
     });
 
+    it('should load a .jsonc file using the Json5Adapter by default', async () => {
+        const configFilePath = path.resolve(
+            __dirname,
+            '../tests/fixtures/test-config.jsonc',
+        );
+        await zodConfig.load(configFilePath);
+        expect(zodConfig.explain('host')).toEqual({
+            host: {
+                type: 'file',
+                path: configFilePath,
+                adapter: 'Json5Adapter',
+            },
+        });
+        expect(zodConfig.get('port')).toEqual(3000);
+    });
+
+    it('should load a .toml file using the TomlAdapter by default', async () => {
+        const configFilePath = path.resolve(
+            __dirname,
+            '../tests/fixtures/test-config.toml',
+        );
+        await zodConfig.load(configFilePath);
+        expect(zodConfig.explain('host')).toEqual({
+            host: {
+                type: 'file',
+                path: configFilePath,
+                adapter: 'TomlAdapter',
+            },
+        });
+        expect(zodConfig.get('port')).toEqual(3000);
+    });
+
+    it('should load .ini and .properties files using their adapters by default', async () => {
+        for (const [extension, adapter] of [
+            ['ini', 'IniAdapter'],
+            ['properties', 'PropertiesAdapter'],
+        ]) {
+            const configFilePath = path.resolve(
+                __dirname,
+                `../tests/fixtures/test-config.${extension}`,
+            );
+            await zodConfig.load(configFilePath);
+            expect(zodConfig.explain('port')).toEqual({
+                port: { type: 'file', path: configFilePath, adapter },
+            });
+            // Values are strings, so the schema coerces the port.
+            expect(zodConfig.get('port')).toEqual(3000);
+        }
+    });
+
+    it('should load a directory using the DirectoryAdapter by default', async () => {
+        class TextAdapter extends CustomAdapter {
+            public override readonly extensions = ['.txt'];
+        }
+        const directory = await mkdtemp(path.join(tmpdir(), 'zod-figure-'));
+        try {
+            await writeFile(
+                path.join(directory, '10-base.yaml'),
+                'port: 4000\nhost: remotehost\n',
+            );
+            await writeFile(path.join(directory, '20-custom.txt'), '');
+            const zodConfig = new ZodConfig({
+                schema,
+                adapters: [new TextAdapter()],
+            });
+            await zodConfig.load(directory);
+            // Values are traced back to the file of the directory that supplied them.
+            expect(zodConfig.explain('host')).toEqual({
+                host: {
+                    type: 'file',
+                    path: path.join(directory, '20-custom.txt'),
+                    adapter: 'TextAdapter',
+                },
+            });
+            // Fragments are loaded using the adapters registered for the instance.
+            expect(zodConfig.get('host')).toEqual('localhost');
+            expect(zodConfig.get('port')).toEqual(3000);
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('should assign the files of a directory to keys matching their names', async () => {
+        const directory = await mkdtemp(path.join(tmpdir(), 'zod-figure-'));
+        try {
+            await writeFile(
+                path.join(directory, '10-db.json'),
+                '{ "host": "localhost", "hosts": ["a"] }',
+            );
+            await writeFile(path.join(directory, '20-db.yaml'), 'hosts: [b]\n');
+            const zodConfig = new ZodConfig({
+                schema: {
+                    db: {
+                        schema: z.object({
+                            host: z.string(),
+                            hosts: z.array(z.string()),
+                        }),
+                        merge: { hosts: 'concat' },
+                    },
+                },
+                directories: { fileNameKeys: true },
+            });
+            await zodConfig.load(directory);
+            expect(zodConfig.get('db')).toEqual({
+                host: 'localhost',
+                hosts: ['a', 'b'],
+            });
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('should report the file of a directory that supplied an invalid value', () => {
+        const directory = mkdtempSync(path.join(tmpdir(), 'zod-figure-'));
+        const filePath = path.join(directory, '20-db.primary.yaml');
+        try {
+            writeFileSync(filePath, 'host: localhost\nport: abc\n');
+            const zodConfig = new ZodConfig({
+                schema: {
+                    db: z.object({
+                        primary: z.object({
+                            host: z.string(),
+                            port: z.number(),
+                        }),
+                    }),
+                },
+                directories: { fileNameKeys: true },
+            });
+            let thrownError: unknown;
+            try {
+                zodConfig.loadSync(directory);
+            } catch (error) {
+                thrownError = error;
+            }
+            // Dots in file names create nested keys.
+            expect((thrownError as ValidationError).issues[0]).toMatchObject({
+                path: ['db', 'primary', 'port'],
+                origin: `file ${filePath}`,
+                line: 2,
+                column: 1,
+            });
+        } finally {
+            rmSync(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('should ignore empty files in a list of sources', async () => {
+        const directory = await mkdtemp(path.join(tmpdir(), 'zod-figure-'));
+        try {
+            const basePath = path.join(directory, 'base.yaml');
+            const emptyPath = path.join(directory, 'empty.yaml');
+            await writeFile(basePath, 'port: 3000\nhost: localhost\n');
+            await writeFile(emptyPath, '# Local overrides\n');
+            await zodConfig.load([basePath, emptyPath]);
+            expect(zodConfig.get('host')).toEqual('localhost');
+
+            const defaultsConfig = new ZodConfig({
+                schema: { port: { schema: z.number().default(3000) } },
+            });
+            defaultsConfig.loadSync(emptyPath);
+            expect(defaultsConfig.get('port')).toEqual(3000);
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('should throw an AdapterError listing the tried adapters for unsupported files', () => {
+        expect(() => zodConfig.loadSync('config.txt')).toThrow(
+            /^No adapter can handle config\.txt\. Tried: .*JsonAdapter \(\.json, application\/json\)/,
+        );
+    });
+
+    it('should resolve adapters registered for an instance or globally', () => {
+        class EnvAdapter extends CustomAdapter {
+            public override readonly schemes = ['env'];
+        }
+        class GlobalAdapter extends CustomAdapter {
+            public override readonly extensions = ['.custom'];
+        }
+        const globalAdapter = new GlobalAdapter();
+        AdapterRegistry.global.register(globalAdapter);
+        try {
+            const zodConfig = new ZodConfig({ schema });
+            zodConfig.loadSync('config.custom');
+            expect(zodConfig.explain('host')['host']).toMatchObject({
+                adapter: 'GlobalAdapter',
+            });
+
+            zodConfig.registerAdapter(new EnvAdapter());
+            zodConfig.loadSync('env://config');
+            expect(zodConfig.explain('host')['host']).toMatchObject({
+                adapter: 'EnvAdapter',
+            });
+            // Standard adapters are still used for the extensions they declare.
+            zodConfig.loadSync({ port: 3000, host: 'remotehost' });
+            expect(zodConfig.get('host')).toEqual('remotehost');
+        } finally {
+            AdapterRegistry.global.unregister(globalAdapter);
+        }
+    });
+
+    it('should only use a custom adapter for the sources it declares', async () => {
+        class TextAdapter extends CustomAdapter {
+            public override readonly extensions = ['.txt'];
+        }
+        const zodConfig = new ZodConfig({
+            schema,
+            customAdapter: new TextAdapter(),
+        });
+        await zodConfig.load([
+            'config.txt',
+            path.resolve(__dirname, '../tests/fixtures/test-config.yaml'),
+        ]);
+        expect(zodConfig.getProvenance()).toEqual({
+            port: expect.objectContaining({ adapter: 'YamlAdapter' }),
+            host: expect.objectContaining({ adapter: 'YamlAdapter' }),
+        });
+    });
+
+    it('should use the custom adapter before adapters registered later', () => {
+        class JsonFileAdapter extends CustomAdapter {
+            public override readonly extensions = ['.json'];
+            public override loadSync(): Record<string, unknown> {
+                return { host: 'remotehost', port: 4000 };
+            }
+        }
+        const zodConfig = new ZodConfig({
+            schema,
+            customAdapter: new CustomAdapter(),
+        });
+        zodConfig.registerAdapter(new JsonFileAdapter());
+        zodConfig.loadSync('config.json');
+        expect(zodConfig.get('host')).toEqual('localhost');
+    });
+
+    it('should not change the logger of global adapters', () => {
+        class GlobalAdapter extends CustomAdapter {
+            public override readonly extensions = ['.custom'];
+        }
+        const globalAdapter = new GlobalAdapter();
+        const globalLogger = globalAdapter['logger'];
+        AdapterRegistry.global.register(globalAdapter);
+        try {
+            const zodConfig = new ZodConfig({ schema });
+            zodConfig.loadSync('config.custom');
+            expect(globalAdapter['logger']).toBe(globalLogger);
+        } finally {
+            AdapterRegistry.global.unregister(globalAdapter);
+        }
+    });
+
+    it('should only log the adapter of a source when it changes', async () => {
+        const logger = jest.fn();
+        const zodConfig = new ZodConfig({ schema, logger });
+        zodConfig.loadSync({ port: 3000, host: 'localhost' });
+        await zodConfig.reload();
+        await zodConfig.reload();
+        expect(
+            logger.mock.calls.filter(([message]) => message === 'Adapter set.'),
+        ).toHaveLength(1);
+    });
+
     it('should be possible to define a schema directly in stead of using the ZodConfigProperty definition', () => {
         const zodConfig = new ZodConfig({
             schema: {
@@ -489,4 +2069,160 @@ describe('ZodConfig', () => {
         await zodConfig.reload();
         expect(zodConfig.get('host')).toEqual('remotehost');
     });
+
+    describe('redaction', () => {
+        const secretSchema = {
+            host: z.string(),
+            password: { schema: z.string().min(12), secret: true },
+            db: {
+                schema: z.object({
+                    user: z.string(),
+                    credentials: z.object({ token: z.enum(['abcd', 'efgh']) }),
+                }),
+                secret: ['credentials.token'],
+            },
+        };
+        const values = {
+            host: 'localhost',
+            password: 'correct horse',
+            db: { user: 'admin', credentials: { token: 'abcd' } },
+        };
+
+        it('should return the real values from get', () => {
+            const zodConfig = new ZodConfig({ schema: secretSchema });
+            zodConfig.loadSync(values);
+            expect(zodConfig.get('password')).toEqual('correct horse');
+            expect(zodConfig.get('db.credentials.token')).toEqual('abcd');
+        });
+
+        it('should redact secret values when dumping or serializing', () => {
+            const zodConfig = new ZodConfig({ schema: secretSchema });
+            zodConfig.loadSync(values);
+            const redacted = {
+                host: 'localhost',
+                password: '[REDACTED]',
+                db: { user: 'admin', credentials: { token: '[REDACTED]' } },
+            };
+            expect(zodConfig.dump()).toEqual(redacted);
+            expect(JSON.parse(JSON.stringify(zodConfig))).toEqual(redacted);
+            expect(inspect(zodConfig)).not.toContain('correct horse');
+        });
+
+        it('should redact secret values in validation errors', () => {
+            const zodConfig = new ZodConfig({ schema: secretSchema });
+            let thrownError: unknown;
+            try {
+                zodConfig.loadSync({
+                    ...values,
+                    password: 'hunter22',
+                    db: { user: 'admin', credentials: { token: 'wxyz' } },
+                });
+            } catch (error) {
+                thrownError = error;
+            }
+            expect(thrownError).toBeInstanceOf(ValidationError);
+            const { message, issues } = thrownError as ValidationError;
+            expect(message).not.toContain('hunter22');
+            expect(message).not.toContain('wxyz');
+            expect(issues.map(({ value }) => value)).toEqual([
+                '[REDACTED]',
+                '[REDACTED]',
+            ]);
+            // Zod copies the input to fields such as `received`.
+            expect(issues[1]).toMatchObject({ received: '[REDACTED]' });
+            expect(JSON.stringify(issues)).not.toContain('hunter22');
+            expect(JSON.stringify(issues)).not.toContain('wxyz');
+        });
+
+        it('should redact secret values in validation errors of set', () => {
+            const zodConfig = new ZodConfig({ schema: secretSchema });
+            zodConfig.loadSync(values);
+            let thrownError: unknown;
+            try {
+                zodConfig.set('db.credentials.token', 'wxyz' as 'abcd');
+            } catch (error) {
+                thrownError = error;
+            }
+            expect(thrownError).toBeInstanceOf(ValidationError);
+            expect((thrownError as ValidationError).message).not.toContain(
+                'wxyz',
+            );
+        });
+
+        it('should redact secret values in log messages', () => {
+            const logger = jest.fn();
+            const zodConfig = new ZodConfig({ schema: secretSchema, logger });
+            zodConfig.loadSync(values);
+            zodConfig.addListener('password', () => {
+                throw new Error('Could not connect using correct horse');
+            });
+            zodConfig.set('password', 'battery staple');
+            expect(logger).toBeCalledWith(
+                'Listener for key password threw an error: Could not connect using [REDACTED]',
+                'error',
+            );
+        });
+    });
+
+    describe('watching', () => {
+        let directory: string;
+        const wait = (ms: number) =>
+            new Promise((resolve) => setTimeout(resolve, ms));
+
+        beforeEach(async () => {
+            jest.useRealTimers();
+            directory = await mkdtemp(path.join(tmpdir(), 'zod-figure-'));
+        });
+        afterEach(async () => {
+            await rm(directory, { recursive: true, force: true });
+        });
+
+        it('should reload the configuration when a watched file changes', async () => {
+            const configFilePath = path.join(directory, 'config.json');
+            await writeFile(configFilePath, '{ "port": 3000, "host": "a" }');
+            const zodConfig = new ZodConfig({
+                schema,
+                watch: { debounceMs: 20 },
+            });
+            await zodConfig.load([configFilePath, {}]);
+            const listener = jest.fn();
+            zodConfig.addListener('host', listener);
+            await writeFile(configFilePath, '{ "port": 3000, "host": "b" }');
+            await wait(200);
+            zodConfig.stopWatching();
+            expect(listener).toBeCalledWith('b', 'a');
+            expect(zodConfig.get('host')).toEqual('b');
+        });
+
+        it('should reload the configuration when files are added to or removed from a watched directory', async () => {
+            await writeFile(
+                path.join(directory, '10-base.json'),
+                '{ "port": 3000, "host": "a" }',
+            );
+            await zodConfig.load(directory);
+            zodConfig.startWatching({ debounceMs: 20 });
+            const overridePath = path.join(directory, '20-override.json');
+            await writeFile(overridePath, '{ "host": "b" }');
+            await wait(200);
+            expect(zodConfig.get('host')).toEqual('b');
+            await rm(overridePath);
+            await wait(200);
+            zodConfig.stopWatching();
+            expect(zodConfig.get('host')).toEqual('a');
+        });
+
+        it('should start and stop watching manually', async () => {
+            const configFilePath = path.join(directory, 'config.json');
+            await writeFile(configFilePath, '{ "port": 3000, "host": "a" }');
+            await zodConfig.load(configFilePath);
+            zodConfig.startWatching({ debounceMs: 20 });
+            await writeFile(configFilePath, '{ "port": 3000, "host": "b" }');
+            await wait(200);
+            expect(zodConfig.get('host')).toEqual('b');
+            zodConfig.stopWatching();
+            await writeFile(configFilePath, '{ "port": 3000, "host": "c" }');
+            await wait(200);
+            expect(zodConfig.get('host')).toEqual('b');
+        });
+    });
 });
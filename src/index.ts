@@ -1,10 +1,76 @@
-import { AdapterError, NotLoadedError } from './errors';
+import {
+    AdapterError,
+    NotLoadedError,
+    ParseError,
+    ReadError,
+    ValidationError,
+    type ValidationIssue,
+} from './errors';
+import {
+    type AutoEnvOptions,
+    type EnvAlias,
+    type EnvBinding,
+    type EnvNames,
+    type EnvProvider,
+    type Environment,
+    coerceEnvValue,
+    deriveEnvBindings,
+    toEnvAliases,
+} from './env';
+import {
+    type ConfigLayer,
+    type Provenance,
+    type ValueOrigin,
+    collectProvenance,
+    findLayer,
+    formatOrigin,
+} from './provenance';
+import {
+    DirectoryAdapter,
+    type DirectoryFile,
+} from './adapters/DirectoryAdapter';
+import { type DotenvOptions, loadDotenv } from './dotenv';
 import { type LogFunction, type LogLevelsMap, Logger } from './Logger';
+import {
+    type MergeRules,
+    type MergeStrategy,
+    isMergeStrategy,
+    mergeDeep,
+} from './merge';
+import {
+    type Path,
+    type PathValue,
+    type ValueChange,
+    diffPaths,
+    getPath,
+    setPath,
+    splitPath,
+} from './paths';
+import {
+    REDACTED,
+    collectSecretValues,
+    isSecretPath,
+    redactMessage,
+    redactValue,
+} from './redact';
+import {
+    type SecretFile,
+    SecretsDirectoryAdapter,
+} from './adapters/SecretsDirectoryAdapter';
 import type { Adapter } from './adapters/Adapter';
+import { AdapterRegistry } from './adapters/AdapterRegistry';
+import { FileWatcher } from './FileWatcher';
+import { IniAdapter } from './adapters/IniAdapter';
+import { Json5Adapter } from './adapters/Json5Adapter';
 import { JsonAdapter } from './adapters/JsonAdapter';
 import { ObjectAdapter } from './adapters/ObjectAdapter';
+import { PropertiesAdapter } from './adapters/PropertiesAdapter';
+import { TomlAdapter } from './adapters/TomlAdapter';
+import { TypedEventEmitter } from './TypedEventEmitter';
 import { YamlAdapter } from './adapters/YamlAdapter';
+import { inspect } from 'util';
 import isEqual from 'lodash.isequal';
+import { resolve } from 'path';
 import { z } from 'zod';
 
 type ZodConfigSchemaMap = {
@@ -12,15 +78,37 @@ type ZodConfigSchemaMap = {
 };
 interface ZodConfigProperty<T extends z.ZodSchema = z.ZodSchema> {
     schema: T;
-    env?: string | undefined | null;
+    env?: EnvNames | undefined | null;
+    // Also read the value from the file at the path in the `<NAME>_FILE` environment variable, e.g. for Docker secrets.
+    envFile?: boolean | undefined;
+    // Strategy used to merge this value across sources, or strategies mapped by paths relative to this value.
+    merge?: MergeStrategy | MergeRules | undefined;
+    // Redact this value in logs, error reports and dumps, or only the values at the given paths relative to this value.
+    secret?: boolean | string[] | undefined;
 }
 
-type ObjectKeys<T> = T extends object ? keyof T : never;
-type KeyValue<T, K extends ObjectKeys<T>> = K extends keyof T ? T[K] : never;
-
-type ListenerFunction<T> = (newValue: T, oldValue: T) => void;
-type ListenerMap<T> = {
-    [K in ObjectKeys<T>]?: ListenerFunction<T[K]>[];
+// Listeners may return a promise, which is awaited by load and reload when awaitListeners is set.
+type ListenerFunction<T> = (newValue: T, oldValue: T) => unknown;
+// Wildcard listeners receive every changed leaf value at once.
+type WildcardListenerFunction = (changes: ValueChange[]) => unknown;
+type ListenerOptions = {
+    // Remove the listener after it has been called once.
+    once?: boolean | undefined;
+    // Listeners with a higher priority are called first. Defaults to 0.
+    priority?: number | undefined;
+};
+type ListenerEntry<L> = { listener: L; once: boolean; priority: number };
+// A pending call of a single listener, collected before any listener is called.
+type ListenerCall = {
+    key: string;
+    priority: number;
+    call: () => unknown;
+};
+// How load and reload wait for listeners that return a promise.
+type AwaitListeners = 'sequential' | 'parallel';
+// Listeners mapped by the dot separated path they listen to.
+type ListenerMap = {
+    [path: string]: ListenerEntry<ListenerFunction<never>>[] | undefined;
 };
 
 type PropertySchema<
@@ -36,7 +124,7 @@ type CompiledSchema<T extends ZodConfigSchemaMap> = z.ZodObject<{
 }>;
 type EnvSchema<T extends ZodConfigSchemaMap> = z.ZodObject<{
     [K in keyof T]: T[K] extends ZodConfigProperty
-        ? T[K]['env'] extends string
+        ? T[K]['env'] extends EnvNames
             ? z.ZodOptional<T[K]['schema']>
             : never
         : never;
@@ -45,9 +133,76 @@ type SchemaValue<T extends ZodConfigSchemaMap> = z.infer<CompiledSchema<T>>;
 type EnvSchemaValue<T extends ZodConfigSchemaMap> = z.infer<EnvSchema<T>>;
 
 type ObjectOrFileRef = Record<string, unknown> | string;
+type WatchOptions = { debounceMs?: number | undefined };
+// Values mapped by the key, or dot separated path, to set them at.
+type ConfigValues<T extends ZodConfigSchemaMap> = {
+    [K in Path<SchemaValue<T>>]?: PathValue<SchemaValue<T>, K>;
+};
+// A working copy of the configuration, changes are applied when the transaction completes.
+type ConfigDraft<T extends ZodConfigSchemaMap> = {
+    get<K extends Path<SchemaValue<T>>>(key: K): PathValue<SchemaValue<T>, K>;
+    set<K extends Path<SchemaValue<T>>>(
+        key: K,
+        value: PathValue<SchemaValue<T>, K>,
+    ): void;
+};
+type ConfigChange<T extends ZodConfigSchemaMap> = {
+    // The top-level keys of which the value changed.
+    changedKeys: (keyof SchemaValue<T>)[];
+    newValue: SchemaValue<T>;
+    oldValue: SchemaValue<T>;
+};
+type ZodConfigEvents<T extends ZodConfigSchemaMap> = {
+    // The configuration was loaded successfully, including reloads.
+    load: (value: SchemaValue<T>) => void;
+    // The configuration was reloaded successfully.
+    reload: (value: SchemaValue<T>) => void;
+    // Reloading the configuration failed, the previous configuration is kept.
+    reloadError: (error: unknown) => void;
+    // One or more values changed, either through (re)loading or set.
+    change: (change: ConfigChange<T>) => void;
+    // A value was changed using set.
+    set: (
+        key: Path<SchemaValue<T>>,
+        newValue: unknown,
+        oldValue: unknown,
+    ) => void;
+    // Loaded or set values did not match the schema.
+    validationError: (error: ValidationError) => void;
+    // A listener threw an error or returned a rejected promise.
+    listenerError: (error: unknown, key: string) => void;
+};
+type ReloadStatus = {
+    // The time at which the configuration was last loaded successfully.
+    lastLoadedAt: Date | null;
+    // The error of the last failed reload, reset when the configuration is loaded successfully.
+    lastError: unknown;
+    // The number of consecutive failed reloads.
+    consecutiveFailures: number;
+};
+// A single source, or an ordered list of sources where later sources take precedence.
+type ConfigSources = ObjectOrFileRef | ObjectOrFileRef[];
+type SecretsDirectoryOptions = {
+    // The directory containing the secret files.
+    path: string;
+    // The maximum size of a secret file. Defaults to 64 KiB.
+    maxBytes?: number;
+    // Remove leading and trailing whitespace from secrets. Defaults to true.
+    trim?: boolean;
+    // Separates nested keys in file names. Defaults to `__`.
+    separator?: string;
+};
+type DirectoryOptions = {
+    // Assign the values of every file to the key matching its file name, e.g. `20-db.yaml` to `db`.
+    fileNameKeys?: boolean;
+};
+type LoadOptions = {
+    // The environment variables to load, overriding the env constructor option.
+    env?: EnvProvider | undefined;
+};
 type ObjectOrFileRefParam<T extends ZodConfigSchemaMap> =
-    | ObjectOrFileRef
-    | ((env: EnvSchemaValue<T>) => ObjectOrFileRef);
+    | ConfigSources
+    | ((env: EnvSchemaValue<T>) => ConfigSources);
 
 export class ZodConfig<T extends ZodConfigSchemaMap> {
     private logger: Logger;
@@ -57,9 +212,26 @@ export class ZodConfig<T extends ZodConfigSchemaMap> {
     public get schema(): T {
         return this._schema;
     }
-    private compiledSchema!: CompiledSchema<T>;
-    private compiledEnvSchema!: EnvSchema<T>;
+    private compiledSchema!:
+        | CompiledSchema<T>
+        | z.ZodEffects<CompiledSchema<T>>;
+    private envBindings: EnvBinding[] = [];
+    private warnedEnvNames = new Set<string>();
+    private dotenvOptions: DotenvOptions | null = null;
+    private secretsDirectory: string | null = null;
+    private secretsAdapter: SecretsDirectoryAdapter;
+    // Read process.env on every (re)load by default, so changes are picked up.
+    private envProvider: EnvProvider = () => process.env;
+    private loadOptions: LoadOptions = {};
+    private mergeRules: MergeRules = {};
+    private secretPaths: string[] = [];
+    private provenance: Provenance = {};
     // Config loading
+    // Only holds the custom adapter, so it takes precedence over the adapters of its parents.
+    private adapterRegistry: AdapterRegistry;
+    private instanceAdapters = new AdapterRegistry();
+    // The adapter last used for every source, to only log when it changes.
+    private resolvedAdapters: Adapter[] = [];
     private _adapter: Adapter | null = null;
     private get adapter(): Adapter {
         if (!this._adapter) {
@@ -69,21 +241,29 @@ export class ZodConfig<T extends ZodConfigSchemaMap> {
         return this._adapter;
     }
     private set adapter(adapter: Adapter) {
+        if (this._adapter) this.adapterRegistry.unregister(this._adapter);
         this._adapter = adapter;
+        this.adapterRegistry.register(adapter);
         this.adapter['logger'] = this.logger;
         this.logger.log('Adapter set.', 'adapterSet');
     }
-    private _objectOrFileRef?: ObjectOrFileRef;
-    private get objectOrFileRef(): ObjectOrFileRef {
+    private _objectOrFileRef?: ConfigSources;
+    private get objectOrFileRef(): ConfigSources {
         if (!this._objectOrFileRef) {
             this.logger.log('Config not loaded.', 'error');
             throw new NotLoadedError();
         }
         return structuredClone(this._objectOrFileRef);
     }
-    private set objectOrFileRef(value: ObjectOrFileRef) {
+    private set objectOrFileRef(value: ConfigSources) {
         this._objectOrFileRef = value;
     }
+    private get sources(): ObjectOrFileRef[] {
+        const objectOrFileRef = this.objectOrFileRef;
+        return Array.isArray(objectOrFileRef)
+            ? objectOrFileRef
+            : [objectOrFileRef];
+    }
     private _currentConfigValue?: SchemaValue<T>;
     private get currentConfigValue(): SchemaValue<T> {
         if (!this._currentConfigValue) {
@@ -93,10 +273,27 @@ export class ZodConfig<T extends ZodConfigSchemaMap> {
         return this._currentConfigValue;
     }
     // Listeners
-    private listenerMap: ListenerMap<SchemaValue<T>> = {};
+    private listenerMap: ListenerMap = {};
+    private wildcardListeners: ListenerEntry<WildcardListenerFunction>[] = [];
+    private awaitListeners: AwaitListeners | false = false;
+    // Resolves when the listeners of the last change are done, when they are awaited.
+    private pendingListeners: Promise<void> = Promise.resolve();
+    private events: TypedEventEmitter<ZodConfigEvents<T>>;
     // Reloading
     private intervalCallback: NodeJS.Timeout | null = null;
     private reloadIntervalMs?: number;
+    private maxReloadFailures?: number;
+    private _reloadStatus: ReloadStatus = {
+        lastLoadedAt: null,
+        lastError: null,
+        consecutiveFailures: 0,
+    };
+    // Define a public getter, so the status can be inspected, but not changed.
+    public get reloadStatus(): ReloadStatus {
+        return { ...this._reloadStatus };
+    }
+    private watcher: FileWatcher | null = null;
+    private watchOptions: WatchOptions | null = null;
     private _loadMethod: typeof this.load | typeof this.loadSync | null = null;
     private get loadMethod(): typeof this.load | typeof this.loadSync {
         if (!this._loadMethod) {
@@ -112,14 +309,63 @@ export class ZodConfig<T extends ZodConfigSchemaMap> {
         logger,
         logLevelMap,
         customAdapter,
+        adapters = [],
+        refine,
+        watch,
+        maxReloadFailures,
+        awaitListeners,
+        autoEnv,
+        dotenv,
+        env,
+        secretsDirectory,
+        directories,
     }: {
         schema: T | ((zod: typeof z) => T);
         reloadIntervalMs?: number;
         logger?: LogFunction | boolean;
         logLevelMap?: Partial<LogLevelsMap>;
         customAdapter?: Adapter;
+        adapters?: Adapter[];
+        refine?: (value: SchemaValue<T>, ctx: z.RefinementCtx) => void;
+        watch?: boolean | WatchOptions;
+        maxReloadFailures?: number;
+        awaitListeners?: AwaitListeners | false;
+        autoEnv?: boolean | AutoEnvOptions;
+        dotenv?: boolean | DotenvOptions;
+        env?: EnvProvider;
+        secretsDirectory?: string | SecretsDirectoryOptions;
+        directories?: DirectoryOptions;
     }) {
         this.logger = new Logger({ logger, logLevelMap });
+        this.events = new TypedEventEmitter({ logger: this.logger });
+        const standardAdapters = new AdapterRegistry({
+            adapters: [
+                new ObjectAdapter({ logger: this.logger }),
+                new JsonAdapter({ logger: this.logger }),
+                new Json5Adapter({ logger: this.logger }),
+                new YamlAdapter({ logger: this.logger }),
+                new TomlAdapter({ logger: this.logger }),
+                new IniAdapter({ logger: this.logger }),
+                new PropertiesAdapter({ logger: this.logger }),
+            ],
+        });
+        this.adapterRegistry = new AdapterRegistry({
+            parents: [
+                this.instanceAdapters,
+                AdapterRegistry.global,
+                standardAdapters,
+            ],
+        });
+        for (const adapter of adapters) this.registerAdapter(adapter);
+        // Load the files of a directory with every adapter available to this instance, merged the same way as sources.
+        standardAdapters.register(
+            new DirectoryAdapter({
+                ...directories,
+                logger: this.logger,
+                registry: this.adapterRegistry,
+                mergeRules: this.mergeRules,
+            }),
+        );
         if (customAdapter) this.adapter = customAdapter;
 
         if (typeof schema === 'function') {
@@ -127,93 +373,370 @@ export class ZodConfig<T extends ZodConfigSchemaMap> {
         } else {
             this._schema = schema;
         }
-        this.compileSchema();
-        this.compileEnvSchema();
+        this.compileSchema(refine);
+        this.compileEnvSchema(autoEnv === true ? {} : autoEnv || null);
+        this.compileMergeRules();
+        this.compileSecretPaths();
 
         if (reloadIntervalMs) this.reloadIntervalMs = reloadIntervalMs;
+        if (watch) this.watchOptions = watch === true ? {} : watch;
+        if (maxReloadFailures) this.maxReloadFailures = maxReloadFailures;
+        if (awaitListeners) this.awaitListeners = awaitListeners;
+        if (dotenv) this.dotenvOptions = dotenv === true ? {} : dotenv;
+        if (env) this.envProvider = env;
+        const { path: secretsPath = null, ...secretsOptions } =
+            typeof secretsDirectory === 'string'
+                ? { path: secretsDirectory }
+                : (secretsDirectory ?? {});
+        this.secretsDirectory = secretsPath;
+        this.secretsAdapter = new SecretsDirectoryAdapter({
+            ...secretsOptions,
+            logger: this.logger,
+        });
     }
 
     /**
-     * Loads configuration from a given object or file reference.
+     * Loads configuration from a given object or file reference, or an ordered list of them.
      * If a file path is provided, the configuration will be loaded from the file.
      * If an object is provided, it will be used directly as the configuration.
+     * If a list is provided, every source is loaded and deep merged in order, later sources taking precedence.
      * The loaded configuration is then merged with environment values and parsed.
-     * @param objectOrFileRef A configuration object or a file path to load the configuration from.
+     * @param objectOrFileRef A configuration object or a file path to load the configuration from, or a list of them.
+     * @param options Options for this load, which are reused when reloading.
+     * @param options.env The environment variables, or a (async) function returning them. Defaults to the env constructor option.
      */
-    public async load(objectOrFileRef: ObjectOrFileRefParam<T>): Promise<void> {
-        const envVariables = this.preLoad(objectOrFileRef, this.load);
-        const rawConfig = await this.adapter.load(this.objectOrFileRef);
-        this.postLoad(envVariables, rawConfig);
+    public async load(
+        objectOrFileRef: ObjectOrFileRefParam<T>,
+        options: LoadOptions = {},
+    ): Promise<void> {
+        const env = await this.resolveEnvironment(options);
+        const envLayers = this.preLoad(
+            objectOrFileRef,
+            this.load,
+            env,
+            options,
+        );
+        const sourceLayers = (
+            await Promise.all(
+                this.sources.map(async (source, index) => {
+                    const adapter = this.resolveAdapter(source, index);
+                    if (
+                        adapter instanceof DirectoryAdapter &&
+                        typeof source === 'string'
+                    ) {
+                        return this.createDirectoryLayers(
+                            await adapter.loadFiles(source),
+                        );
+                    }
+                    const values = await adapter.load(source);
+                    return [
+                        this.createSourceLayer(source, index, adapter, values),
+                    ];
+                }),
+            )
+        ).flat();
+        if (this.secretsDirectory) {
+            sourceLayers.push(
+                ...this.createSecretLayers(
+                    await this.secretsAdapter.loadSecrets(
+                        this.secretsDirectory,
+                    ),
+                ),
+            );
+        }
+        this.postLoad(envLayers, sourceLayers);
+        await this.pendingListeners;
     }
     /**
-     * Loads configuration from a given object or file reference synchronously.
+     * Loads configuration from a given object or file reference, or an ordered list of them, synchronously.
      * If a file path is provided, the configuration will be loaded from the file.
      * If an object is provided, it will be used directly as the configuration.
+     * If a list is provided, every source is loaded and deep merged in order, later sources taking precedence.
      * The loaded configuration is then merged with environment values and parsed.
-     * @param objectOrFileRef A configuration object or a file path to load the configuration from.
+     * @param objectOrFileRef A configuration object or a file path to load the configuration from, or a list of them.
+     * @param options Options for this load, which are reused when reloading.
+     * @param options.env The environment variables, or a function returning them. Defaults to the env constructor option.
      */
-    public loadSync(objectOrFileRef: ObjectOrFileRefParam<T>): void {
-        const envVariables = this.preLoad(objectOrFileRef, this.loadSync);
-        const rawConfig = this.adapter.loadSync(this.objectOrFileRef);
-        this.postLoad(envVariables, rawConfig);
+    public loadSync(
+        objectOrFileRef: ObjectOrFileRefParam<T>,
+        options: LoadOptions = {},
+    ): void {
+        const env = this.resolveEnvironment(options);
+        if (env instanceof Promise) {
+            this.logger.log('Environment provider is async.', 'error');
+            throw new ReadError(
+                'Environment provider returned a promise, use load instead of loadSync.',
+            );
+        }
+        const envLayers = this.preLoad(
+            objectOrFileRef,
+            this.loadSync,
+            env,
+            options,
+        );
+        const sourceLayers = this.sources.flatMap((source, index) => {
+            const adapter = this.resolveAdapter(source, index);
+            if (
+                adapter instanceof DirectoryAdapter &&
+                typeof source === 'string'
+            ) {
+                return this.createDirectoryLayers(
+                    adapter.loadFilesSync(source),
+                );
+            }
+            const values = adapter.loadSync(source);
+            return [this.createSourceLayer(source, index, adapter, values)];
+        });
+        if (this.secretsDirectory) {
+            sourceLayers.push(
+                ...this.createSecretLayers(
+                    this.secretsAdapter.loadSecretsSync(this.secretsDirectory),
+                ),
+            );
+        }
+        this.postLoad(envLayers, sourceLayers);
     }
 
     /**
      * Retrieves a value from the configuration object based on the provided path.
-     * @param key A string key representing the value to be returned.
+     * @param key A string key, or a dot separated path to a nested value, representing the value to be returned.
      * @returns The value at the specified path.
      */
-    public get<K extends ObjectKeys<SchemaValue<T>>>(
+    public get<K extends Path<SchemaValue<T>>>(
         key: K,
-    ): KeyValue<SchemaValue<T>, K> {
-        const value = structuredClone(this.currentConfigValue[key]);
+    ): PathValue<SchemaValue<T>, K> {
+        const value = structuredClone(getPath(this.currentConfigValue, key));
 
-        this.logger.log(
-            `Retrieved configuration value for key: ${String(key)}`,
-            'get',
-        );
+        this.logger.log(`Retrieved configuration value for key: ${key}`, 'get');
 
-        return value;
+        return value as PathValue<SchemaValue<T>, K>;
     }
 
     /**
      * Sets a value in the configuration object based on the provided path.
-     * @param key A string key representing the value to be changed.
+     * The resulting configuration is validated against the schema before it is set.
+     * When validation fails, a ValidationError is thrown and the configuration is left untouched.
+     * @param key A string key, or a dot separated path to a nested value, representing the value to be changed.
      * @param value The new value to set at the specified path.
      */
-    public set<K extends ObjectKeys<SchemaValue<T>>>(
+    public set<K extends Path<SchemaValue<T>>>(
         key: K,
-        value: KeyValue<SchemaValue<T>, K>,
+        value: PathValue<SchemaValue<T>, K>,
     ): void {
-        const oldValue = structuredClone(this.currentConfigValue[key]);
-        this.currentConfigValue[key] = structuredClone(value);
+        this.applyValues([[key, value]]);
+    }
 
-        this.logger.log(
-            `Set configuration value for key: ${String(key)}`,
-            'set',
+    /**
+     * Sets multiple values in the configuration object at once.
+     * The resulting configuration is validated as a whole, and listeners are called once with all changes.
+     * When validation fails, a ValidationError is thrown and none of the values are set.
+     * @param values The new values, mapped by their key or dot separated path.
+     */
+    public setMany(values: ConfigValues<T>): void {
+        this.applyValues(
+            Object.entries(values) as [Path<SchemaValue<T>>, unknown][],
+        );
+    }
+
+    /**
+     * Changes the configuration using a draft, and applies all changes at once when the callback completes.
+     * The resulting configuration is validated as a whole, and listeners are called once with all changes.
+     * When the callback throws or validation fails, the error is thrown and none of the changes are applied.
+     * @param callback A function that changes the configuration using the supplied draft.
+     */
+    public transaction(callback: (draft: ConfigDraft<T>) => void): void {
+        let draftValues: Record<string, unknown> = this.currentConfigValue;
+        const changes = new Map<Path<SchemaValue<T>>, unknown>();
+        callback({
+            get: (key) =>
+                structuredClone(getPath(draftValues, key)) as PathValue<
+                    SchemaValue<T>,
+                    typeof key
+                >,
+            set: (key, value) => {
+                draftValues = setPath(draftValues, key, structuredClone(value));
+                // Move the path to the end, so overlapping paths are applied in the order they were last set.
+                changes.delete(key);
+                changes.set(key, value);
+            },
+        });
+        if (changes.size) this.applyValues([...changes]);
+    }
+
+    /**
+     * Registers a handler for a lifecycle event of the configuration.
+     * @param event The event to handle.
+     * @param handler The function to call when the event is emitted.
+     * @returns A function that removes the handler.
+     */
+    public on<E extends keyof ZodConfigEvents<T>>(
+        event: E,
+        handler: ZodConfigEvents<T>[E],
+    ): () => void {
+        return this.events.on(event, handler);
+    }
+
+    /**
+     * Registers a handler for a lifecycle event of the configuration, which is removed after it has been called once.
+     * @param event The event to handle.
+     * @param handler The function to call when the event is emitted.
+     * @returns A function that removes the handler.
+     */
+    public once<E extends keyof ZodConfigEvents<T>>(
+        event: E,
+        handler: ZodConfigEvents<T>[E],
+    ): () => void {
+        return this.events.once(event, handler);
+    }
+
+    /**
+     * Removes a handler for a lifecycle event of the configuration.
+     * @param event The event the handler was registered for.
+     * @param handler The handler to remove.
+     */
+    public off<E extends keyof ZodConfigEvents<T>>(
+        event: E,
+        handler: ZodConfigEvents<T>[E],
+    ): void {
+        this.events.off(event, handler);
+    }
+
+    /**
+     * Explains where the value at the provided path came from.
+     * @param key A string key, or a dot separated path to a nested value, to explain.
+     * @returns The origins of the value and every nested value, mapped by their dot separated path.
+     */
+    public explain<K extends Path<SchemaValue<T>>>(key: K): Provenance {
+        return Object.fromEntries(
+            Object.entries(this.getProvenance()).filter(
+                ([path]) => path === key || path.startsWith(`${key}.`),
+            ),
         );
+    }
+
+    /**
+     * Retrieves the origin of every value in the configuration object.
+     * Origins are either the schema default, a file, an object, an environment variable, or a call to `set`.
+     * @returns The origins of all values, mapped by their dot separated path.
+     */
+    public getProvenance(): Provenance {
+        // Ensure the configuration is loaded.
+        void this.currentConfigValue;
+        return structuredClone(this.provenance);
+    }
 
-        this.runListener(key, structuredClone(value), oldValue);
+    /**
+     * Retrieves a copy of the configuration object that is safe to print, with secret values redacted.
+     * Use `get` to retrieve the real values.
+     * @returns The configuration object, with secret values replaced by `[REDACTED]`.
+     */
+    public dump(): Record<string, unknown> {
+        return redactValue(
+            structuredClone(this.currentConfigValue),
+            this.secretPaths,
+        ) as Record<string, unknown>;
+    }
+
+    /**
+     * Serializes the configuration object with secret values redacted, e.g. when passed to `JSON.stringify`.
+     * @returns The configuration object, with secret values replaced by `[REDACTED]`.
+     */
+    public toJSON(): Record<string, unknown> {
+        return this.dump();
+    }
+
+    /**
+     * Prints the configuration object with secret values redacted, e.g. when passed to `console.log`.
+     * @returns The configuration object, with secret values replaced by `[REDACTED]`.
+     */
+    public [inspect.custom](): Record<string, unknown> {
+        return this.dump();
     }
 
     /**
      * Adds a listener to a specific key in the configuration object.
-     * @param key The key to listen to.
+     * Listeners are called only when the value at the key changes, which includes changes to nested values.
+     * When the key is `'*'`, the listener is called once per change with every changed value.
+     * @param key The key, or dot separated path to a nested value, to listen to. Use `'*'` to listen to all keys.
      * @param listener The listener function to be called when the key changes.
+     * @param options Options for the listener.
+     * @param options.once Remove the listener after it has been called once.
+     * @returns A function that removes the listener.
      */
-    public addListener<K extends ObjectKeys<SchemaValue<T>>>(
+    public addListener(
+        key: '*',
+        listener: WildcardListenerFunction,
+        options?: ListenerOptions,
+    ): () => void;
+    public addListener<K extends Path<SchemaValue<T>>>(
         key: K,
-        listener: ListenerFunction<SchemaValue<T>>,
-    ): void {
-        if (!this.listenerMap[key]) {
-            this.listenerMap[key] = [];
+        listener: ListenerFunction<PathValue<SchemaValue<T>, K>>,
+        options?: ListenerOptions,
+    ): () => void;
+    public addListener(
+        key: string,
+        listener: ListenerFunction<never> | WildcardListenerFunction,
+        { once = false, priority = 0 }: ListenerOptions = {},
+    ): () => void {
+        const entry = { listener, once, priority };
+        if (key === '*') {
+            this.wildcardListeners.push(
+                entry as ListenerEntry<WildcardListenerFunction>,
+            );
+        } else {
+            if (!this.listenerMap[key]) {
+                this.listenerMap[key] = [];
+            }
+            this.listenerMap[key]?.push(
+                entry as ListenerEntry<ListenerFunction<never>>,
+            );
         }
-        this.listenerMap[key]?.push(listener);
 
         this.logger.log(
-            `Registered listener for key: ${String(key)}`,
+            `Registered listener for key: ${key}`,
             'registeredListener',
         );
+
+        // Only remove this registration, the same function may be registered more than once.
+        return () =>
+            this.removeListenerEntry(key, (existing) => existing === entry);
+    }
+
+    /**
+     * Removes a listener from a specific key in the configuration object.
+     * @param key The key, or dot separated path, the listener was added to. Use `'*'` for wildcard listeners.
+     * @param listener The listener function to remove.
+     */
+    public removeListener(key: '*', listener: WildcardListenerFunction): void;
+    public removeListener<K extends Path<SchemaValue<T>>>(
+        key: K,
+        listener: ListenerFunction<PathValue<SchemaValue<T>, K>>,
+    ): void;
+    public removeListener(
+        key: string,
+        listener: ListenerFunction<never> | WildcardListenerFunction,
+    ): void {
+        this.removeListenerEntry(key, (entry) => entry.listener === listener);
+    }
+
+    /**
+     * Removes all listeners from a specific key in the configuration object, or from all keys.
+     * @param key The key, or dot separated path, to remove the listeners from. Use `'*'` for wildcard listeners. When omitted, all listeners are removed.
+     */
+    public removeAllListeners(key?: Path<SchemaValue<T>> | '*'): void {
+        if (key === undefined) {
+            this.listenerMap = {};
+            this.wildcardListeners = [];
+        } else if (key === '*') {
+            this.wildcardListeners = [];
+        } else {
+            delete this.listenerMap[key];
+        }
+
+        this.logger.log(
+            `Removed all listeners${key === undefined ? '' : ` for key: ${key}`}`,
+            'removedListener',
+        );
     }
 
     /**
@@ -251,36 +774,90 @@ export class ZodConfig<T extends ZodConfigSchemaMap> {
     }
 
     /**
-     * Sets the adapter to be used for loading configuration.
-     * @param adapter The adapter to be used for loading configuration.
+     * Starts watching the configuration files for changes, if not yet watching.
+     * The configuration is reloaded whenever the content of one of the files changes.
+     * Only sources that are file paths are watched.
+     * @param options Options for watching the files.
+     * @param options.debounceMs The time in milliseconds to wait for file changes to settle before reloading.
      */
-    public setAdapter(adapter?: Adapter): void {
-        if (adapter) this.adapter = adapter;
-        if (this._adapter) return;
-        if (typeof this.objectOrFileRef === 'string') {
-            if (this.objectOrFileRef.endsWith('.json')) {
-                this.adapter = new JsonAdapter();
-            }
-            if (
-                this.objectOrFileRef.endsWith('.yaml') ||
-                this.objectOrFileRef.endsWith('.yml')
-            ) {
-                this.adapter = new YamlAdapter();
-            }
-        } else {
-            this.adapter = new ObjectAdapter();
+    public startWatching(options?: WatchOptions): void {
+        if (options) this.watchOptions = options;
+        this.watchOptions ??= {};
+
+        const paths = this.sources
+            .filter((source): source is string => typeof source === 'string')
+            .map((source) => resolve(source));
+        // Keep the current watcher if it already watches the same files.
+        if (isEqual(this.watcher?.watchedPaths, paths)) return;
+
+        this.watcher?.stop();
+        this.watcher = new FileWatcher({
+            paths,
+            debounceMs: this.watchOptions.debounceMs,
+            logger: this.logger,
+            onChange: () => this.reloadInBackground(),
+        });
+        this.watcher.start();
+        this.logger.log('Started watching files.', 'startWatching');
+    }
+
+    /**
+     * Stops watching the configuration files if currently watching.
+     */
+    public stopWatching(): void {
+        this.watchOptions = null;
+        if (this.watcher) {
+            this.watcher.stop();
+            this.watcher = null;
         }
+
+        this.logger.log('Stopped watching files.', 'stopWatching');
+    }
+
+    /**
+     * Sets the adapter to be used for loading configuration, replacing the previously set adapter.
+     * The adapter takes precedence over all other adapters. When it doesn't declare the extensions, URL schemes or MIME
+     * types it handles, it is used for every source in place of the automatically determined adapters.
+     * @param adapter The adapter to be used for loading configuration.
+     */
+    public setAdapter(adapter: Adapter): void {
+        this.adapter = adapter;
+    }
+
+    /**
+     * Registers an adapter for this instance, which takes precedence over the global and standard adapters.
+     * Use `AdapterRegistry.global.register` to register an adapter for every instance.
+     * @param adapter The adapter to register.
+     */
+    public registerAdapter(adapter: Adapter): void {
+        this.instanceAdapters.register(adapter);
+        adapter['logger'] = this.logger;
     }
 
     /**
      * Reloads the configuration from the object or file reference.
+     * When reloading fails, the previous configuration is kept and the error is rethrown.
      */
     public async reload(): Promise<void> {
-        await this.loadMethod(this.objectOrFileRef);
+        try {
+            // Pass the original sources instead of a clone, so later reloads still use the same references.
+            await this.loadMethod(
+                this._objectOrFileRef ?? this.objectOrFileRef,
+                this.loadOptions,
+            );
+            // Wait for listeners, also when the configuration was loaded synchronously.
+            await this.pendingListeners;
+        } catch (error) {
+            this.handleReloadError(error);
+            throw error;
+        }
         this.logger.log('Reloaded configuration successfully.', 'reload');
+        this.events.emit('reload', structuredClone(this.currentConfigValue));
     }
 
-    private compileSchema() {
+    private compileSchema(
+        refine?: (value: SchemaValue<T>, ctx: z.RefinementCtx) => void,
+    ) {
         const schemaDef = Object.fromEntries(
             Object.entries(this.schema).map(([key, value]) => {
                 if (value instanceof z.ZodSchema) {
@@ -289,32 +866,35 @@ export class ZodConfig<T extends ZodConfigSchemaMap> {
                 return [key, value.schema];
             }),
         ) as { [K in keyof T]: PropertySchema<T, K> };
-        this.compiledSchema = z.object(schemaDef);
+        this.compiledSchema = refine
+            ? z.object(schemaDef).superRefine(refine)
+            : z.object(schemaDef);
 
         this.logger.log('Compiled schema successfully.', 'compiledSchema');
     }
 
-    private compileEnvSchema() {
-        const envSchemaDef = Object.fromEntries(
-            Object.entries(this.schema)
-                .map(([key, value]) => {
-                    if (value instanceof z.ZodSchema) {
-                        return [key, undefined];
-                    }
-                    if (value.env) {
-                        return [key, value.schema.optional()];
-                    }
-                    return [key, undefined];
-                })
-                .filter(([, value]) => value !== undefined),
-        ) as {
-            [K in keyof T]: T[K] extends ZodConfigProperty
-                ? T[K]['env'] extends string
-                    ? z.ZodOptional<T[K]['schema']>
-                    : never
-                : never;
-        };
-        this.compiledEnvSchema = z.object(envSchemaDef);
+    private compileEnvSchema(autoEnv: AutoEnvOptions | null) {
+        for (const [key, value] of Object.entries(this.schema)) {
+            const property =
+                value instanceof z.ZodSchema ? { schema: value } : value;
+            // Properties with env set to null are never read from the environment.
+            if (property.env === null) continue;
+            if (property.env) {
+                this.envBindings.push({
+                    path: key,
+                    names: toEnvAliases(property.env),
+                    schema: property.schema,
+                    file: property.envFile,
+                });
+            }
+            if (!autoEnv) continue;
+            // An explicit env name overrides the derived name, derived names of nested values are still used.
+            this.envBindings.push(
+                ...deriveEnvBindings(property.schema, [key], autoEnv)
+                    .filter((binding) => !property.env || binding.path !== key)
+                    .map((binding) => ({ ...binding, file: property.envFile })),
+            );
+        }
 
         this.logger.log(
             'Compiled env schema successfully.',
@@ -322,117 +902,601 @@ export class ZodConfig<T extends ZodConfigSchemaMap> {
         );
     }
 
+    private compileMergeRules() {
+        for (const [key, value] of Object.entries(this.schema)) {
+            if (value instanceof z.ZodSchema || !value.merge) continue;
+            if (isMergeStrategy(value.merge)) {
+                this.mergeRules[key] = value.merge;
+                continue;
+            }
+            for (const [path, strategy] of Object.entries(value.merge)) {
+                this.mergeRules[`${key}.${path}`] = strategy;
+            }
+        }
+    }
+
+    private compileSecretPaths() {
+        for (const [key, value] of Object.entries(this.schema)) {
+            if (value instanceof z.ZodSchema || !value.secret) continue;
+            if (value.secret === true) {
+                this.secretPaths.push(key);
+                continue;
+            }
+            this.secretPaths.push(
+                ...value.secret.map((path) => `${key}.${path}`),
+            );
+        }
+    }
+
     private preLoad(
         objectOrFileRef: ObjectOrFileRefParam<T>,
         loadMethod: typeof this.load | typeof this.loadSync,
-    ): EnvSchemaValue<T> {
-        const envVariables = this.parseEnvValues();
+        env: Environment,
+        options: LoadOptions,
+    ): ConfigLayer[] {
+        const envLayers = this.parseEnvValues(env);
         // Evaluate objectOrFileRef with envVariables.
         if (typeof objectOrFileRef === 'function') {
-            this.objectOrFileRef = objectOrFileRef(envVariables);
+            const envVariables = envLayers.reduce<Record<string, unknown>>(
+                (merged, { values }) =>
+                    mergeDeep(merged, values, this.mergeRules) as Record<
+                        string,
+                        unknown
+                    >,
+                {},
+            );
+            this.objectOrFileRef = objectOrFileRef(
+                envVariables as EnvSchemaValue<T>,
+            );
         } else this.objectOrFileRef = objectOrFileRef;
 
         this._loadMethod = loadMethod;
-        this.setAdapter();
-        return envVariables;
+        this.loadOptions = options;
+        return envLayers;
     }
 
-    private parseEnvValues(): EnvSchemaValue<T> {
-        const envValues = this.getEnvValues();
-        return this.compiledEnvSchema.parse(envValues);
+    private resolveAdapter(source: ObjectOrFileRef, index: number): Adapter {
+        let adapter: Adapter;
+        try {
+            adapter = this.adapterRegistry.resolve(source);
+        } catch (error) {
+            const reason =
+                error instanceof Error ? error.message : String(error);
+            this.logger.log(reason, 'error');
+            throw error;
+        }
+        // Global adapters are shared by every instance, so their logger is left untouched.
+        if (this.resolvedAdapters[index] !== adapter) {
+            this.resolvedAdapters[index] = adapter;
+            this.logger.log('Adapter set.', 'adapterSet');
+        }
+        return adapter;
+    }
+
+    // Coerces and parses every set environment variable using the schema of the value it is bound to.
+    private parseEnvValues(env: Environment): ConfigLayer[] {
+        const layers: ConfigLayer[] = [];
+        const rawLayers: ConfigLayer[] = [];
+        const issues: z.ZodIssue[] = [];
+        for (const [{ path, schema }, { name }, envValue] of this.getEnvValues(
+            env,
+        )) {
+            const origin: ValueOrigin = { type: 'env', variable: name };
+            rawLayers.push({ origin, values: setPath({}, path, envValue) });
+            let coercedValue: unknown;
+            try {
+                coercedValue = coerceEnvValue(envValue, schema);
+            } catch (error) {
+                if (!(error instanceof ParseError)) throw error;
+                issues.push({
+                    code: z.ZodIssueCode.custom,
+                    path: splitPath(path),
+                    message: error.message,
+                });
+                continue;
+            }
+            const result = schema.safeParse(coercedValue);
+            if (result.success) {
+                layers.push({ origin, values: setPath({}, path, result.data) });
+            } else {
+                issues.push(
+                    ...result.error.issues.map((issue) => ({
+                        ...issue,
+                        path: [...splitPath(path), ...issue.path],
+                    })),
+                );
+            }
+        }
+        if (issues.length) {
+            throw this.createValidationError(new z.ZodError(issues), rawLayers);
+        }
+        return layers;
     }
 
     private postLoad(
-        envVariables: EnvSchemaValue<T>,
-        rawConfig: Record<string, unknown>,
+        envLayers: ConfigLayer[],
+        sourceLayers: ConfigLayer[],
     ): void {
         const oldValues = structuredClone(this._currentConfigValue);
-        this._currentConfigValue = this.mergeAndParseValues(
-            envVariables,
-            rawConfig,
+        const layers = [...sourceLayers, ...envLayers];
+        this._currentConfigValue = this.mergeAndParseValues(layers);
+        this.provenance = collectProvenance(
+            this._currentConfigValue,
+            layers,
+            this.mergeRules,
         );
+        this.updateSecretValues(this._currentConfigValue, oldValues);
+        this._reloadStatus = {
+            lastLoadedAt: new Date(),
+            lastError: null,
+            consecutiveFailures: 0,
+        };
         this.runListeners(this._currentConfigValue, oldValues);
         this.startReloadInterval();
+        if (this.watchOptions) this.startWatching();
         this.logger.log('Loaded configuration successfully.', 'load');
+        this.events.emit('load', structuredClone(this._currentConfigValue));
     }
 
-    private mergeAndParseValues(
-        envVariables: EnvSchemaValue<T>,
-        values: Record<string, unknown>,
-    ): SchemaValue<T> {
-        return this.compiledSchema.parse({ ...values, ...envVariables });
+    private mergeAndParseValues(layers: ConfigLayer[]): SchemaValue<T> {
+        const mergedValues = layers.reduce<Record<string, unknown>>(
+            (merged, { values }) =>
+                mergeDeep(merged, values, this.mergeRules) as Record<
+                    string,
+                    unknown
+                >,
+            {},
+        );
+        const result = this.compiledSchema.safeParse(mergedValues);
+        if (!result.success) {
+            throw this.createValidationError(result.error, layers);
+        }
+        return result.data;
     }
 
-    private getEnvValues(): Record<string, string> {
-        const envValues: Record<string, string> = {};
-        for (const key in this.schema) {
-            if (
-                !(this.schema[key] instanceof z.ZodSchema) &&
-                this.schema[key]?.env
-            ) {
-                const envKey = this.schema[key].env;
-                const envValue = process.env[envKey];
-                if (envValue) {
-                    envValues[key] = envValue;
+    private createSourceLayer(
+        source: ObjectOrFileRef,
+        index: number,
+        adapter: Adapter,
+        values: Record<string, unknown> | null,
+    ): ConfigLayer {
+        const origin: ValueOrigin =
+            typeof source === 'string'
+                ? {
+                      type: 'file',
+                      path: source,
+                      adapter: adapter.constructor.name,
+                  }
+                : { type: 'object', index };
+        return {
+            origin,
+            // Empty or comment-only files parse to null, they don't supply any values.
+            values: values ?? {},
+            locate: (path) => adapter.locate?.(source, path),
+        };
+    }
+
+    // Every file of a directory is a separate layer, so values are traced back to the file that supplied them.
+    private createDirectoryLayers(files: DirectoryFile[]): ConfigLayer[] {
+        return files.map(({ path, key, adapter, values }) => {
+            const keyLength = key === null ? 0 : splitPath(key).length;
+            return {
+                origin: {
+                    type: 'file',
+                    path,
+                    adapter: adapter.constructor.name,
+                },
+                values,
+                locate: (valuePath) =>
+                    adapter.locate?.(path, valuePath.slice(keyLength)),
+            };
+        });
+    }
+
+    private createSecretLayers(secrets: SecretFile[]): ConfigLayer[] {
+        return secrets.map(({ key, path, value }) => ({
+            origin: {
+                type: 'file',
+                path,
+                adapter: this.secretsAdapter.constructor.name,
+            },
+            values: setPath({}, key, value),
+        }));
+    }
+
+    private createValidationError(
+        error: z.ZodError,
+        layers: ConfigLayer[],
+    ): ValidationError {
+        const issues = error.issues.map((issue) => {
+            const found = findLayer(layers, issue.path);
+            if (!found) return issue;
+            const position = found.layer.locate?.(issue.path);
+            return this.redactIssue(
+                {
+                    ...issue,
+                    origin: formatOrigin(found.layer.origin),
+                    value: found.value,
+                    ...(position && {
+                        line: position.line,
+                        column: position.column,
+                    }),
+                },
+                found.value,
+            );
+        });
+        const validationError = new ValidationError(issues);
+        this.logger.log(validationError.report, 'error');
+        this.events.emit('validationError', validationError);
+        return validationError;
+    }
+
+    // Combines the environment with variables from .env files, which are read on every (re)load.
+    private readEnvironment(env: Environment): Environment {
+        if (!this.dotenvOptions) return env;
+
+        const { override, populateProcessEnv } = this.dotenvOptions;
+        const dotenvValues = loadDotenv(this.dotenvOptions, env);
+        if (populateProcessEnv) {
+            for (const [key, value] of Object.entries(dotenvValues)) {
+                if (override || process.env[key] === undefined) {
+                    process.env[key] = value;
                 }
             }
         }
+        // Unset variables in an injected environment don't hide values from .env files.
+        const setEnv = Object.fromEntries(
+            Object.entries(env).filter(([, value]) => value !== undefined),
+        );
+        return override
+            ? { ...setEnv, ...dotenvValues }
+            : { ...dotenvValues, ...setEnv };
+    }
+
+    // Function providers are called on every (re)load, so they can supply a different environment each time.
+    private resolveEnvironment({
+        env = this.envProvider,
+    }: LoadOptions): Environment | Promise<Environment> {
+        return typeof env === 'function' ? env() : env;
+    }
+
+    private getEnvValues(
+        baseEnv: Environment,
+    ): [EnvBinding, EnvAlias, string][] {
+        const env = this.readEnvironment(baseEnv);
+        const envValues: [EnvBinding, EnvAlias, string][] = [];
+        for (const binding of this.envBindings) {
+            for (const alias of binding.names) {
+                const envValue = this.getEnvValue(binding, alias, env);
+                if (!envValue) continue;
+                if (alias.deprecated) this.warnDeprecatedEnv(binding, alias);
+                envValues.push(envValue);
+                break;
+            }
+        }
         return envValues;
     }
 
+    // Reads the variable of an alias, or the file in its `<NAME>_FILE` variable when supported by the binding.
+    private getEnvValue(
+        binding: EnvBinding,
+        alias: EnvAlias,
+        env: Environment,
+    ): [EnvBinding, EnvAlias, string] | null {
+        const envValue = env[alias.name];
+        if (envValue) return [binding, alias, envValue];
+
+        const fileName = `${alias.name}_FILE`;
+        const filePath = binding.file && env[fileName];
+        if (!filePath) return null;
+        return [
+            binding,
+            { ...alias, name: fileName },
+            this.secretsAdapter.readSecretSync(filePath),
+        ];
+    }
+
+    // Every deprecated name is only reported once, so reloads don't repeat the warning.
+    private warnDeprecatedEnv(binding: EnvBinding, alias: EnvAlias): void {
+        if (this.warnedEnvNames.has(alias.name)) return;
+        this.warnedEnvNames.add(alias.name);
+
+        const replacement = binding.names.find(({ deprecated }) => !deprecated);
+        const message =
+            typeof alias.deprecated === 'string'
+                ? alias.deprecated
+                : replacement
+                  ? `Use ${replacement.name} instead.`
+                  : '';
+        this.logger.log(
+            `Environment variable ${alias.name} is deprecated. ${message}`.trim(),
+            'deprecatedEnv',
+        );
+    }
+
+    // Validates and sets all values at once, so listeners and events see a single consistent change.
+    private applyValues(values: [Path<SchemaValue<T>>, unknown][]): void {
+        const oldValues = this.currentConfigValue;
+        const keys = values.map(([key]) => key);
+        const newValues = values.reduce<Record<string, unknown>>(
+            (newValues, [key, value]) =>
+                setPath(newValues, key, structuredClone(value)),
+            oldValues,
+        );
+        const result = this.compiledSchema.safeParse(newValues);
+        if (!result.success) {
+            this.logger.log(
+                `Invalid configuration value for key: ${keys.join(', ')}`,
+                'error',
+            );
+            const validationError = new ValidationError(
+                result.error.issues.map((issue) =>
+                    this.redactIssue(
+                        issue,
+                        getPath(newValues, issue.path.join('.')),
+                    ),
+                ),
+            );
+            this.events.emit('validationError', validationError);
+            throw validationError;
+        }
+        this._currentConfigValue = result.data;
+        this.updateSecretValues(this._currentConfigValue, oldValues);
+
+        for (const key of keys) {
+            this.updateProvenance(key, { type: 'set' });
+
+            this.logger.log(`Set configuration value for key: ${key}`, 'set');
+
+            this.events.emit(
+                'set',
+                key,
+                structuredClone(getPath(this._currentConfigValue, key)),
+                structuredClone(getPath(oldValues, key)),
+            );
+        }
+        this.runListeners(this._currentConfigValue, oldValues);
+    }
+
+    // Removes secret values from an issue. Besides the message and value, zod copies the input to fields such as
+    // `received`, so every string field is redacted.
+    private redactIssue<I extends ValidationIssue>(
+        issue: I,
+        value: unknown,
+    ): I {
+        const path = issue.path.join('.');
+        const isSecret = isSecretPath(path, this.secretPaths);
+        const secretValues = collectSecretValues(value, this.secretPaths, path);
+        if (!secretValues.length && !isSecret) return issue;
+
+        const redacted = Object.fromEntries(
+            Object.entries(issue).map(([key, field]) => {
+                if (key === 'received' && isSecret) return [key, REDACTED];
+                return [
+                    key,
+                    typeof field === 'string'
+                        ? redactMessage(field, secretValues)
+                        : field,
+                ];
+            }),
+        ) as I;
+        return {
+            ...redacted,
+            ...(issue.value !== undefined && {
+                value: redactValue(issue.value, this.secretPaths, path),
+            }),
+        };
+    }
+
+    // Previous values are kept, so messages about the change don't reveal them either.
+    private updateSecretValues(...values: unknown[]): void {
+        this.logger.setSecretValues(
+            values.flatMap((value) =>
+                collectSecretValues(value, this.secretPaths),
+            ),
+        );
+    }
+
+    private updateProvenance(key: string, origin: ValueOrigin): void {
+        const values = setPath({}, key, getPath(this.currentConfigValue, key));
+        this.provenance = {
+            ...Object.fromEntries(
+                Object.entries(this.provenance).filter(
+                    ([path]) => path !== key && !path.startsWith(`${key}.`),
+                ),
+            ),
+            ...collectProvenance(values, [{ origin, values }]),
+        };
+    }
+
     private runListeners(
         newValues: SchemaValue<T>,
         oldValues?: SchemaValue<T>,
     ): void {
-        if (oldValues) {
-            const changedKeys = this.getChangedKeys(oldValues, newValues);
-            for (const changedKey of changedKeys) {
-                this.runListener(
-                    changedKey,
-                    newValues[changedKey],
-                    oldValues[changedKey],
+        if (!oldValues) return;
+
+        const calls: ListenerCall[] = [];
+        for (const path of Object.keys(this.listenerMap)) {
+            const newValue = getPath(newValues, path);
+            const oldValue = getPath(oldValues, path);
+            if (!isEqual(oldValue, newValue)) {
+                calls.push(
+                    ...this.collectListenerCalls(
+                        path,
+                        structuredClone(newValue),
+                        structuredClone(oldValue),
+                    ),
                 );
             }
         }
+
+        if (this.wildcardListeners.length) {
+            const changes = diffPaths(oldValues, newValues);
+            if (changes.length) {
+                calls.push(...this.collectWildcardListenerCalls(changes));
+            }
+        }
+
+        // Array.prototype.sort is stable, so listeners with the same priority keep their order.
+        calls.sort((a, b) => b.priority - a.priority);
+        this.pendingListeners = this.callListeners(calls);
+
+        const changedKeys = this.getChangedKeys(oldValues, newValues);
+        if (changedKeys.length) {
+            this.events.emit('change', {
+                changedKeys,
+                newValue: structuredClone(newValues),
+                oldValue: structuredClone(oldValues),
+            });
+        }
+    }
+
+    private async callListeners(calls: ListenerCall[]): Promise<void> {
+        if (this.awaitListeners === 'sequential') {
+            for (const call of calls) await this.callListener(call);
+        } else if (this.awaitListeners === 'parallel') {
+            // Listeners with the same priority run in parallel, higher priorities finish before lower priorities start.
+            for (const priority of new Set(
+                calls.map((call) => call.priority),
+            )) {
+                await Promise.all(
+                    calls
+                        .filter((call) => call.priority === priority)
+                        .map((call) => this.callListener(call)),
+                );
+            }
+        } else {
+            for (const call of calls) void this.callListener(call);
+        }
+    }
+
+    // Errors are reported instead of rethrown, so a failing listener does not affect other listeners or the load.
+    private async callListener({ key, call }: ListenerCall): Promise<void> {
+        try {
+            await call();
+        } catch (error) {
+            const reason =
+                error instanceof Error ? error.message : String(error);
+            this.logger.log(
+                `Listener for key ${key} threw an error: ${reason}`,
+                'listenerError',
+            );
+            this.events.emit('listenerError', error, key);
+        }
     }
 
     private getChangedKeys(
         oldConfig: SchemaValue<T>,
         newConfig: SchemaValue<T>,
-    ): ObjectKeys<SchemaValue<T>>[] {
-        const changedKeys: ObjectKeys<SchemaValue<T>>[] = [];
-        const configKeys = Object.keys(oldConfig) as ObjectKeys<
-            SchemaValue<T>
-        >[];
-
-        for (const key of configKeys) {
-            if (!isEqual(oldConfig[key], newConfig[key])) {
-                changedKeys.push(key);
-            }
+    ): (keyof SchemaValue<T>)[] {
+        const configKeys = new Set([
+            ...Object.keys(oldConfig),
+            ...Object.keys(newConfig),
+        ]) as Set<keyof SchemaValue<T>>;
+        return [...configKeys].filter(
+            (key) => !isEqual(oldConfig[key], newConfig[key]),
+        );
+    }
+
+    private collectListenerCalls(
+        path: string,
+        newValue: unknown,
+        oldValue: unknown,
+    ): ListenerCall[] {
+        this.logger.log(`Running listeners for key: ${path}`, 'runListeners');
+
+        const entries = this.listenerMap[path] ?? [];
+        this.setListenerEntries(
+            path,
+            entries.filter((entry) => !entry.once),
+        );
+        return entries.map(({ listener, priority }) => ({
+            key: path,
+            priority,
+            call: () =>
+                (listener as ListenerFunction<unknown>)(newValue, oldValue),
+        }));
+    }
+
+    private removeListenerEntry(
+        key: string,
+        matches: (entry: ListenerEntry<unknown>) => boolean,
+    ): void {
+        if (key === '*') {
+            this.wildcardListeners = this.wildcardListeners.filter(
+                (entry) => !matches(entry),
+            );
+        } else {
+            this.setListenerEntries(
+                key,
+                (this.listenerMap[key] ?? []).filter(
+                    (entry) => !matches(entry),
+                ),
+            );
         }
-        return changedKeys;
+
+        this.logger.log(`Removed listener for key: ${key}`, 'removedListener');
     }
 
-    private runListener<K extends ObjectKeys<SchemaValue<T>>>(
-        key: K,
-        newValue: KeyValue<SchemaValue<T>, K>,
-        oldValue: KeyValue<SchemaValue<T>, K>,
+    // Removes the path once its last listener is removed, so it is no longer checked for changes.
+    private setListenerEntries(
+        path: string,
+        entries: ListenerEntry<ListenerFunction<never>>[],
     ): void {
+        if (entries.length) {
+            this.listenerMap[path] = entries;
+        } else {
+            delete this.listenerMap[path];
+        }
+    }
+
+    private collectWildcardListenerCalls(
+        changes: ValueChange[],
+    ): ListenerCall[] {
+        this.logger.log('Running wildcard listeners.', 'runListeners');
+
+        const entries = this.wildcardListeners;
+        this.wildcardListeners = entries.filter((entry) => !entry.once);
+        return entries.map(({ listener, priority }) => ({
+            key: '*',
+            priority,
+            call: () => listener(structuredClone(changes)),
+        }));
+    }
+
+    private handleReloadError(error: unknown): void {
+        this._reloadStatus = {
+            ...this._reloadStatus,
+            lastError: error,
+            consecutiveFailures: this._reloadStatus.consecutiveFailures + 1,
+        };
+        const reason = error instanceof Error ? error.message : String(error);
         this.logger.log(
-            `Running listeners for key: ${String(key)}`,
-            'runListeners',
+            `Could not reload configuration, keeping the previous configuration: ${reason}`,
+            'reloadError',
         );
+        this.events.emit('reloadError', error);
 
-        this.listenerMap[key]?.forEach((listener) =>
-            listener(newValue, oldValue),
-        );
+        if (
+            this.maxReloadFailures &&
+            this._reloadStatus.consecutiveFailures >= this.maxReloadFailures
+        ) {
+            this.logger.log(
+                `Stopped automatic reloading after ${this._reloadStatus.consecutiveFailures} consecutive failures.`,
+                'error',
+            );
+            this.stopReloadInterval();
+            this.stopWatching();
+        }
+    }
+
+    // Errors are handled by reload, so they are not rethrown to avoid unhandled rejections.
+    private reloadInBackground(): void {
+        this.reload().catch(() => {});
     }
 
     private createReloadIntervalCallback(intervalMs: number): NodeJS.Timeout {
-        return setInterval(async () => {
-            await this.loadMethod(this.objectOrFileRef);
-            this.logger.log('Reloaded configuration successfully.', 'reload');
-        }, intervalMs);
+        return setInterval(() => this.reloadInBackground(), intervalMs);
     }
 }
 
@@ -441,8 +1505,20 @@ export type inferZodConfigValue<T extends ZodConfig<any>> = z.infer<
     CompiledSchema<T['schema']>
 >;
 
+export { loadDotenv } from './dotenv';
 export { Adapter } from './adapters/Adapter';
+export { AdapterRegistry } from './adapters/AdapterRegistry';
+export {
+    DirectoryAdapter,
+    type DirectoryFile,
+    type DirectoryFragment,
+} from './adapters/DirectoryAdapter';
+export { IniAdapter } from './adapters/IniAdapter';
+export { Json5Adapter } from './adapters/Json5Adapter';
 export { JsonAdapter } from './adapters/JsonAdapter';
 export { ObjectAdapter } from './adapters/ObjectAdapter';
+export { PropertiesAdapter } from './adapters/PropertiesAdapter';
+export { SecretsDirectoryAdapter } from './adapters/SecretsDirectoryAdapter';
+export { TomlAdapter } from './adapters/TomlAdapter';
 export { YamlAdapter } from './adapters/YamlAdapter';
 export * from './errors';
@@ -0,0 +1,75 @@
+import { describe, expect, it } from '@jest/globals';
+import { ParseError } from './errors';
+import { parseIni } from './ini';
+
+describe('ini', () => {
+    it('should parse keys, sections and comments', () => {
+        const content = [
+            '; A comment',
+            'name = app',
+            '',
+            '[db]',
+            '# Another comment',
+            'host = localhost ; The host',
+            'pool.max = 10',
+            '',
+            '[db.replica]',
+            'host=remotehost',
+        ].join('\n');
+        expect(parseIni(content)).toEqual({
+            name: 'app',
+            db: {
+                host: 'localhost',
+                pool: { max: '10' },
+                replica: { host: 'remotehost' },
+            },
+        });
+    });
+
+    it('should parse quoted values, arrays and continuation lines', () => {
+        const content = [
+            "single = 'no \\n escapes ; here'",
+            'double = "Line 1\\nLine \\"2\\"" ; A comment',
+            'hosts[] = a',
+            'hosts[] = b',
+            'query = SELECT * \\',
+            '    FROM users',
+            '[empty]',
+        ].join('\n');
+        expect(parseIni(content)).toEqual({
+            single: 'no \\n escapes ; here',
+            double: 'Line 1\nLine "2"',
+            hosts: ['a', 'b'],
+            query: 'SELECT * FROM users',
+            empty: {},
+        });
+    });
+
+    it('should not change the prototype of the result', () => {
+        const result = parseIni('[__proto__]\npolluted = yes');
+        expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+        expect(result['__proto__']).toEqual({ polluted: 'yes' });
+    });
+
+    it('should throw a ParseError with the line of invalid content', () => {
+        expect(() => parseIni('name = app\ninvalid')).toThrow(
+            new ParseError('Could not parse line 2.'),
+        );
+        expect(() => parseIni('name = "app')).toThrow(
+            new ParseError('Missing closing quote on line 1.'),
+        );
+        expect(() => parseIni('db = a\n[db]')).toThrow(
+            new ParseError(
+                'Section db on line 2 conflicts with an earlier key.',
+            ),
+        );
+        expect(() => parseIni('[db]\nhost = a\n[]')).toThrow(
+            new ParseError('Missing section name on line 3.'),
+        );
+        expect(() => parseIni('db.host = a\ndb = b')).toThrow(
+            new ParseError(
+                'Key db on line 2 conflicts with an earlier key or section.',
+            ),
+        );
+    });
+});
@@ -0,0 +1,98 @@
+import { assignPath, getPath } from './paths';
+import { findClosingQuote, unescapeDoubleQuoted } from './quotes';
+import { ParseError } from './errors';
+
+const SECTION = /^\[([^\]]*)\]\s*(?:[;#].*)?$/;
+
+const stripComment = (value: string): string =>
+    value.replace(/(^|\s+)[;#].*$/, '').trim();
+
+const parseQuotedValue = (value: string, lineNumber: number): string => {
+    const quote = value[0] ?? '';
+    const end = findClosingQuote(value.slice(1), quote);
+    if (end === -1) {
+        throw new ParseError(`Missing closing quote on line ${lineNumber}.`, {
+            line: lineNumber,
+        });
+    }
+    if (stripComment(value.slice(end + 2))) {
+        throw new ParseError(
+            `Unexpected characters after the closing quote on line ${lineNumber}.`,
+            { line: lineNumber },
+        );
+    }
+    const quoted = value.slice(1, end + 1);
+    return quote === '"' ? unescapeDoubleQuoted(quoted) : quoted;
+};
+
+/**
+ * Parses the content of an INI file to a nested object. All values are strings.
+ * Sections and dotted keys create nested objects, e.g. `host` in section `[db.primary]` is set at `db.primary.host`.
+ * Keys ending with `[]` collect their values in an array. Comments start with `;` or `#`, unquoted values ending with
+ * `\` continue on the next line, and double quoted values support escape sequences (`\n`, `\r`, `\t`).
+ * @param content The content of the file.
+ * @returns The nested object.
+ * @throws {ParseError} When a line can't be parsed, or a key conflicts with an earlier key or section.
+ */
+export const parseIni = (content: string): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    const lines = content.replace(/\r\n?/g, '\n').split('\n');
+    let section = '';
+    for (let index = 0; index < lines.length; index++) {
+        const lineNumber = index + 1;
+        const line = (lines[index] ?? '').trim();
+        if (!line || line.startsWith(';') || line.startsWith('#')) continue;
+
+        const [, sectionName] = SECTION.exec(line) ?? [];
+        if (sectionName !== undefined) {
+            section = sectionName.trim();
+            if (!section) {
+                throw new ParseError(
+                    `Missing section name on line ${lineNumber}.`,
+                    { line: lineNumber },
+                );
+            }
+            if (!assignPath(result, section, {})) {
+                throw new ParseError(
+                    `Section ${section} on line ${lineNumber} conflicts with an earlier key.`,
+                    { line: lineNumber },
+                );
+            }
+            continue;
+        }
+
+        const separator = line.indexOf('=');
+        let key = line.slice(0, separator).trim();
+        if (separator === -1 || !key) {
+            throw new ParseError(`Could not parse line ${lineNumber}.`, {
+                line: lineNumber,
+            });
+        }
+        const rawValue = line.slice(separator + 1).trim();
+        let value: string;
+        if (rawValue.startsWith('"') || rawValue.startsWith("'")) {
+            value = parseQuotedValue(rawValue, lineNumber);
+        } else {
+            value = stripComment(rawValue);
+            while (value.endsWith('\\') && index < lines.length - 1) {
+                index++;
+                value = value.slice(0, -1) + stripComment(lines[index] ?? '');
+            }
+        }
+
+        const isArray = key.endsWith('[]');
+        if (isArray) key = key.slice(0, -2).trim();
+        const path = section ? `${section}.${key}` : key;
+        const existing = getPath(result, path);
+        const newValue = isArray
+            ? [...(Array.isArray(existing) ? existing : []), value]
+            : value;
+        if (!assignPath(result, path, newValue)) {
+            throw new ParseError(
+                `Key ${path} on line ${lineNumber} conflicts with an earlier key or section.`,
+                { line: lineNumber },
+            );
+        }
+    }
+    return result;
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from '@jest/globals';
+import { isMergeStrategy, isPlainObject, mergeDeep } from './merge';
+
+describe('merge', () => {
+    it('should detect plain objects', () => {
+        expect(isPlainObject({})).toBe(true);
+        expect(isPlainObject(Object.create(null))).toBe(true);
+        expect(isPlainObject([])).toBe(false);
+        expect(isPlainObject(new Date())).toBe(false);
+        expect(isPlainObject(null)).toBe(false);
+        expect(isPlainObject('string')).toBe(false);
+    });
+
+    it('should deep merge nested objects', () => {
+        const target = { db: { host: 'localhost', port: 3000 }, name: 'app' };
+        const source = { db: { host: 'remotehost' } };
+        expect(mergeDeep(target, source)).toEqual({
+            db: { host: 'remotehost', port: 3000 },
+            name: 'app',
+        });
+    });
+
+    it('should not mutate the merged values', () => {
+        const target = { db: { host: 'localhost' } };
+        const source = { db: { port: 3000 } };
+        mergeDeep(target, source);
+        expect(target).toEqual({ db: { host: 'localhost' } });
+        expect(source).toEqual({ db: { port: 3000 } });
+    });
+
+    it('should replace arrays and non-object values', () => {
+        expect(mergeDeep({ hosts: ['a', 'b'] }, { hosts: ['c'] })).toEqual({
+            hosts: ['c'],
+        });
+        expect(mergeDeep({ db: { host: 'a' } }, { db: 'b' })).toEqual({
+            db: 'b',
+        });
+    });
+
+    it('should ignore undefined values in the source', () => {
+        expect(mergeDeep({ host: 'a' }, { host: undefined })).toEqual({
+            host: 'a',
+        });
+    });
+
+    it('should not change the prototype of merged objects', () => {
+        const merged = mergeDeep(
+            {},
+            JSON.parse('{ "__proto__": { "admin": true } }'),
+        ) as Record<string, unknown>;
+        expect(Object.getPrototypeOf(merged)).toBe(Object.prototype);
+        expect(merged['admin']).toBeUndefined();
+        expect(Object.keys(merged)).toEqual(['__proto__']);
+    });
+
+    it('should distinguish merge strategies from merge rules', () => {
+        expect(isMergeStrategy('concat')).toBe(true);
+        expect(isMergeStrategy({ mergeByKey: 'id' })).toBe(true);
+        expect(isMergeStrategy({ hosts: 'concat' })).toBe(false);
+    });
+
+    it('should replace objects when using the replace strategy', () => {
+        expect(
+            mergeDeep(
+                { db: { host: 'a', port: 1 } },
+                { db: { host: 'b' } },
+                { db: 'replace' },
+            ),
+        ).toEqual({ db: { host: 'b' } });
+    });
+
+    it('should concatenate arrays when using the concat strategy', () => {
+        expect(
+            mergeDeep(
+                { db: { hosts: ['a'] } },
+                { db: { hosts: ['b'] } },
+                { 'db.hosts': 'concat' },
+            ),
+        ).toEqual({ db: { hosts: ['a', 'b'] } });
+    });
+
+    it('should merge arrays of objects by key when using the mergeByKey strategy', () => {
+        const target = {
+            servers: [
+                { name: 'a', port: 1, tags: ['x'] },
+                { name: 'b', port: 2 },
+            ],
+        };
+        const source = {
+            servers: [{ name: 'b', port: 3 }, { name: 'c', port: 4 }, 'd'],
+        };
+        expect(
+            mergeDeep(target, source, {
+                servers: { mergeByKey: 'name' },
+            }),
+        ).toEqual({
+            servers: [
+                { name: 'a', port: 1, tags: ['x'] },
+                { name: 'b', port: 3 },
+                { name: 'c', port: 4 },
+                'd',
+            ],
+        });
+    });
+
+    it('should apply nested rules to items merged by key', () => {
+        expect(
+            mergeDeep(
+                { servers: [{ name: 'a', tags: ['x'] }] },
+                { servers: [{ name: 'a', tags: ['y'] }] },
+                {
+                    servers: { mergeByKey: 'name' },
+                    'servers.tags': 'concat',
+                },
+            ),
+        ).toEqual({ servers: [{ name: 'a', tags: ['x', 'y'] }] });
+    });
+});
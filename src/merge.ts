@@ -0,0 +1,148 @@
+/**
+ * Strategies used to merge a value with the value of a previous source.
+ * - `merge` (default): plain objects are merged recursively, other values (including arrays) are replaced.
+ * - `replace`: the value replaces the previous value, including plain objects.
+ * - `concat`: arrays are concatenated, other values are merged using the default strategy.
+ * - `{ mergeByKey }`: arrays of objects are merged by matching items on the given key, unmatched items are appended.
+ */
+export type MergeStrategy = 'merge' | 'replace' | 'concat' | MergeByKey;
+type MergeByKey = { mergeByKey: string };
+// Merge strategies mapped by the dot separated path they apply to.
+export type MergeRules = { [path: string]: MergeStrategy };
+
+/**
+ * Checks whether a value is a plain object (an object literal or an object without a prototype).
+ * Arrays, dates, class instances and other special objects are not considered plain objects.
+ * @param value The value to check.
+ * @returns Whether the value is a plain object.
+ */
+export const isPlainObject = (
+    value: unknown,
+): value is Record<string, unknown> => {
+    if (typeof value !== 'object' || value === null) return false;
+    // Compare against the end of the prototype chain, so objects from other realms (e.g. structuredClone) are supported.
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === null || Object.getPrototypeOf(prototype) === null;
+};
+
+/**
+ * Checks whether a value is a single merge strategy, as opposed to a map of merge strategies.
+ * @param value The value to check.
+ * @returns Whether the value is a merge strategy.
+ */
+export const isMergeStrategy = (
+    value: MergeStrategy | MergeRules,
+): value is MergeStrategy => {
+    if (typeof value === 'string') return true;
+    const keys = Object.keys(value);
+    return (
+        keys.length === 1 &&
+        keys[0] === 'mergeByKey' &&
+        typeof value['mergeByKey'] === 'string'
+    );
+};
+
+/**
+ * Retrieves an own property of an object, ignoring inherited properties such as `__proto__`.
+ * @param value The object to read from.
+ * @param key The key of the property.
+ * @returns The value of the property, or undefined when the object has no such own property.
+ */
+export const getOwn = (value: Record<string, unknown>, key: string): unknown =>
+    Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined;
+
+/**
+ * Defines a property instead of assigning it, so keys such as `__proto__` don't change the prototype.
+ * @param value The object to update.
+ * @param key The key of the property.
+ * @param newValue The value of the property.
+ */
+export const defineOwn = (
+    value: Record<string, unknown>,
+    key: string,
+    newValue: unknown,
+): void => {
+    Object.defineProperty(value, key, {
+        value: newValue,
+        writable: true,
+        enumerable: true,
+        configurable: true,
+    });
+};
+
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const mergeObjects = (
+    target: Record<string, unknown>,
+    source: Record<string, unknown>,
+    rules: MergeRules,
+    path: string,
+): Record<string, unknown> => {
+    const merged: Record<string, unknown> = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+        if (value === undefined) continue;
+        defineOwn(
+            merged,
+            key,
+            mergeDeep(getOwn(target, key), value, rules, joinPath(path, key)),
+        );
+    }
+    return merged;
+};
+
+const mergeArraysByKey = (
+    target: unknown[],
+    source: unknown[],
+    { mergeByKey }: MergeByKey,
+    rules: MergeRules,
+    path: string,
+): unknown[] => {
+    const merged = [...target];
+    for (const item of source) {
+        const index =
+            isPlainObject(item) && item[mergeByKey] !== undefined
+                ? merged.findIndex(
+                      (existing) =>
+                          isPlainObject(existing) &&
+                          existing[mergeByKey] === item[mergeByKey],
+                  )
+                : -1;
+        const existing = merged[index];
+        if (isPlainObject(existing) && isPlainObject(item)) {
+            merged[index] = mergeObjects(existing, item, rules, path);
+        } else {
+            merged.push(item);
+        }
+    }
+    return merged;
+};
+
+/**
+ * Deep merges two values, without mutating either of them.
+ * By default plain objects are merged recursively, any other value in `source` replaces the value in `target`.
+ * Keys with an `undefined` value in `source` do not override values in `target`.
+ * @param target The value to merge into.
+ * @param source The value to merge, takes precedence over `target`.
+ * @param rules Merge strategies mapped by the dot separated path they apply to.
+ * @param path The path of the values being merged, used to look up merge strategies.
+ * @returns The merged value.
+ */
+export const mergeDeep = (
+    target: unknown,
+    source: unknown,
+    rules: MergeRules = {},
+    path: string = '',
+): unknown => {
+    const strategy = rules[path] ?? 'merge';
+    if (strategy === 'replace') return source;
+
+    if (Array.isArray(target) && Array.isArray(source)) {
+        if (strategy === 'concat') return [...target, ...source];
+        if (typeof strategy === 'object')
+            return mergeArraysByKey(target, source, strategy, rules, path);
+        return source;
+    }
+
+    if (!isPlainObject(target) || !isPlainObject(source)) return source;
+    return mergeObjects(target, source, rules, path);
+};
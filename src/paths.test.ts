@@ -0,0 +1,84 @@
+import {
+    assignPath,
+    collectLeafPaths,
+    diffPaths,
+    getPath,
+    setPath,
+    splitPath,
+} from './paths';
+import { describe, expect, it } from '@jest/globals';
+
+describe('paths', () => {
+    it('should split a path into segments', () => {
+        expect(splitPath('db.pool.max')).toEqual(['db', 'pool', 'max']);
+        expect(splitPath('host')).toEqual(['host']);
+    });
+
+    it('should assign nested values in place', () => {
+        const value: Record<string, unknown> = { db: { host: 'a' } };
+        expect(assignPath(value, 'db.pool.max', 10)).toBe(true);
+        expect(assignPath(value, 'db.host', 'b')).toBe(true);
+        expect(assignPath(value, 'db', {})).toBe(true);
+        expect(value).toEqual({ db: { host: 'b', pool: { max: 10 } } });
+    });
+
+    it('should not assign values that conflict with existing values', () => {
+        const value: Record<string, unknown> = { db: { host: 'a' } };
+        expect(assignPath(value, 'db.host.name', 'b')).toBe(false);
+        expect(assignPath(value, 'db', 'b')).toBe(false);
+        expect(assignPath(value, 'db.host', {})).toBe(false);
+        expect(value).toEqual({ db: { host: 'a' } });
+    });
+
+    it('should get nested values', () => {
+        const value = { db: { pool: { max: 10 } } };
+        expect(getPath(value, 'db.pool.max')).toBe(10);
+        expect(getPath(value, 'db.pool')).toEqual({ max: 10 });
+    });
+
+    it('should return undefined for paths that do not exist', () => {
+        const value = { db: { pool: { max: 10 } }, hosts: ['a'] };
+        expect(getPath(value, 'db.pool.min')).toBeUndefined();
+        expect(getPath(value, 'cache.ttl')).toBeUndefined();
+        expect(getPath(value, 'hosts.0')).toBeUndefined();
+    });
+
+    it('should set nested values without mutating the original', () => {
+        const value = { db: { pool: { max: 10, min: 1 } }, host: 'a' };
+        const result = setPath(value, 'db.pool.max', 20);
+        expect(result).toEqual({
+            db: { pool: { max: 20, min: 1 } },
+            host: 'a',
+        });
+        expect(value.db.pool.max).toBe(10);
+    });
+
+    it('should create missing parents when setting values', () => {
+        expect(setPath({ db: 'a' }, 'db.pool.max', 20)).toEqual({
+            db: { pool: { max: 20 } },
+        });
+    });
+
+    it('should collect the paths of leaf values', () => {
+        expect(
+            collectLeafPaths({
+                db: { pool: { max: 10 }, hosts: ['a'] },
+                x: {},
+            }),
+        ).toEqual([['db', 'pool', 'max'], ['db', 'hosts'], ['x']]);
+    });
+
+    it('should list the leaf values that changed', () => {
+        expect(
+            diffPaths(
+                { db: { host: 'a', port: 1 }, hosts: ['a'], removed: true },
+                { db: { host: 'b', port: 1 }, hosts: ['a', 'b'], added: 1 },
+            ),
+        ).toEqual([
+            { path: 'db.host', newValue: 'b', oldValue: 'a' },
+            { path: 'hosts', newValue: ['a', 'b'], oldValue: ['a'] },
+            { path: 'removed', newValue: undefined, oldValue: true },
+            { path: 'added', newValue: 1, oldValue: undefined },
+        ]);
+    });
+});
@@ -0,0 +1,196 @@
+import { defineOwn, getOwn, isPlainObject } from './merge';
+import isEqual from 'lodash.isequal';
+
+// Values that are not traversed when building paths.
+type Leaf =
+    | string
+    | number
+    | boolean
+    | bigint
+    | symbol
+    | null
+    | undefined
+    | Date
+    | RegExp
+    | Map<unknown, unknown>
+    | Set<unknown>
+    | readonly unknown[]
+    | ((...args: never[]) => unknown);
+// Limits the recursion depth, so recursive (lazy) schemas don't result in infinite types.
+type MaxDepth = [unknown, unknown, unknown, unknown, unknown, unknown];
+
+/**
+ * All dot separated paths into an object type, e.g. `'db' | 'db.host' | 'db.port'`.
+ * Arrays are treated as leaf values.
+ */
+export type Path<T, D extends unknown[] = []> = T extends Leaf
+    ? never
+    : T extends object
+      ? D['length'] extends MaxDepth['length']
+          ? never
+          : {
+                [K in keyof T & string]:
+                    | K
+                    | `${K}.${Path<T[K], [...D, unknown]>}`;
+            }[keyof T & string]
+      : never;
+
+/**
+ * The type of the value found at a dot separated path into an object type.
+ * When a parent of the value is optional, the value may be undefined.
+ */
+export type PathValue<T, P extends string> = T extends null | undefined
+    ? undefined
+    : P extends keyof T
+      ? T[P]
+      : P extends `${infer K}.${infer Rest}`
+        ? K extends keyof T
+            ? PathValue<T[K], Rest>
+            : never
+        : never;
+
+/**
+ * A change of the value at a dot separated path.
+ */
+export type ValueChange = {
+    path: string;
+    newValue: unknown;
+    oldValue: unknown;
+};
+
+/**
+ * Splits a dot separated path into its segments.
+ * @param path The path to split.
+ * @returns The path segments.
+ */
+export const splitPath = (path: string): string[] => path.split('.');
+
+/**
+ * Retrieves the value at a dot separated path.
+ * @param value The value to traverse.
+ * @param path The path of the value to retrieve.
+ * @returns The value at the path, or undefined if the path does not exist.
+ */
+export const getPath = (value: unknown, path: string): unknown => {
+    let current = value;
+    for (const segment of splitPath(path)) {
+        if (!isPlainObject(current)) return undefined;
+        current = current[segment];
+    }
+    return current;
+};
+
+/**
+ * Sets the value at a dot separated path, without mutating the original value.
+ * Missing or non-object parents along the path are replaced by objects.
+ * @param value The object to update.
+ * @param path The path of the value to set.
+ * @param newValue The value to set at the path.
+ * @returns A copy of the object with the value at the path set.
+ */
+export const setPath = (
+    value: Record<string, unknown>,
+    path: string,
+    newValue: unknown,
+): Record<string, unknown> => {
+    const [segment, ...rest] = splitPath(path);
+    if (segment === undefined) return value;
+    if (!rest.length) return { ...value, [segment]: newValue };
+
+    const child = value[segment];
+    return {
+        ...value,
+        [segment]: setPath(
+            isPlainObject(child) ? child : {},
+            rest.join('.'),
+            newValue,
+        ),
+    };
+};
+
+/**
+ * Assigns a value at a dot separated path, mutating the object. Missing parents are created.
+ * Meant for building objects from flat formats, where a key can't hold both a value and nested values.
+ * @param value The object to update.
+ * @param path The path of the value to assign.
+ * @param newValue The value to assign. An object is merged into an existing object at the path.
+ * @returns Whether the value was assigned, false when the path or one of its parents holds a conflicting value.
+ */
+export const assignPath = (
+    value: Record<string, unknown>,
+    path: string,
+    newValue: unknown,
+): boolean => {
+    const segments = splitPath(path);
+    const key = segments.pop() ?? '';
+    let current = value;
+    for (const segment of segments) {
+        const child = getOwn(current, segment) ?? {};
+        if (!isPlainObject(child)) return false;
+        defineOwn(current, segment, child);
+        current = child;
+    }
+
+    const existing = getOwn(current, key);
+    if (isPlainObject(existing) && isPlainObject(newValue)) {
+        for (const [childKey, child] of Object.entries(newValue)) {
+            defineOwn(existing, childKey, child);
+        }
+        return true;
+    }
+    // Scalar values may be replaced, but not by or with an object.
+    if (
+        existing !== undefined &&
+        (isPlainObject(existing) || isPlainObject(newValue))
+    ) {
+        return false;
+    }
+    defineOwn(current, key, newValue);
+    return true;
+};
+
+/**
+ * Collects the paths of all leaf values in a value. Arrays and empty objects are treated as leaf values.
+ * @param value The value to traverse.
+ * @param path The path of the value, used when recursing.
+ * @param paths The collected paths, used when recursing.
+ * @returns The path segments of every leaf value.
+ */
+export const collectLeafPaths = (
+    value: unknown,
+    path: string[] = [],
+    paths: string[][] = [],
+): string[][] => {
+    if (isPlainObject(value) && Object.keys(value).length) {
+        for (const [key, child] of Object.entries(value)) {
+            collectLeafPaths(child, [...path, key], paths);
+        }
+    } else if (path.length) {
+        paths.push(path);
+    }
+    return paths;
+};
+
+/**
+ * Compares two values and lists the leaf values that changed.
+ * @param oldValue The previous value.
+ * @param newValue The current value.
+ * @returns The changes of every leaf value that was added, removed or changed.
+ */
+export const diffPaths = (
+    oldValue: unknown,
+    newValue: unknown,
+): ValueChange[] => {
+    const paths = new Set(
+        [...collectLeafPaths(oldValue), ...collectLeafPaths(newValue)].map(
+            (segments) => segments.join('.'),
+        ),
+    );
+    return [...paths]
+        .map((path) => ({
+            path,
+            newValue: getPath(newValue, path),
+            oldValue: getPath(oldValue, path),
+        }))
+        .filter((change) => !isEqual(change.oldValue, change.newValue));
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from '@jest/globals';
+import { ParseError } from './errors';
+import { parseProperties } from './properties';
+
+describe('properties', () => {
+    it('should parse keys, separators and comments', () => {
+        const content = [
+            '# A comment',
+            '! Another comment',
+            'name=app',
+            'db.host : localhost',
+            'db.pool.max 10',
+            '  db.user   =   admin  ',
+            'empty=',
+        ].join('\n');
+        expect(parseProperties(content)).toEqual({
+            name: 'app',
+            db: { host: 'localhost', pool: { max: '10' }, user: 'admin  ' },
+            empty: '',
+        });
+    });
+
+    it('should parse escapes and continuation lines', () => {
+        const content = [
+            'path=C:\\\\Program Files\\\\app',
+            'greeting=Hello\\tWorld\\u0021',
+            'key\\ with\\:separators=value',
+            'hosts=a,\\',
+            '      b,\\',
+            '      c',
+            'backslash=ends with \\\\',
+            'next=line',
+        ].join('\n');
+        expect(parseProperties(content)).toEqual({
+            path: 'C:\\Program Files\\app',
+            greeting: 'Hello\tWorld!',
+            'key with:separators': 'value',
+            hosts: 'a,b,c',
+            backslash: 'ends with \\',
+            next: 'line',
+        });
+    });
+
+    it('should throw a ParseError with the line of invalid content', () => {
+        expect(() => parseProperties('name=app\n=value')).toThrow(
+            new ParseError('Could not parse line 2.'),
+        );
+        expect(() => parseProperties('name=\\u00')).toThrow(
+            new ParseError('Invalid unicode escape on line 1.'),
+        );
+    });
+
+    it('should keep the value of keys that also have nested keys', () => {
+        const content = [
+            'log4j.appender.A1=org.apache.log4j.ConsoleAppender',
+            'log4j.appender.A1.layout=org.apache.log4j.PatternLayout',
+            'log4j.appender.A1.layout.ConversionPattern=%m%n',
+        ].join('\n');
+        const expected = {
+            log4j: {
+                appender: {
+                    A1: {
+                        _value: 'org.apache.log4j.ConsoleAppender',
+                        layout: {
+                            _value: 'org.apache.log4j.PatternLayout',
+                            ConversionPattern: '%m%n',
+                        },
+                    },
+                },
+            },
+        };
+        expect(parseProperties(content)).toEqual(expected);
+        expect(
+            parseProperties(content.split('\n').reverse().join('\n')),
+        ).toEqual(expected);
+    });
+});
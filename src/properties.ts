@@ -0,0 +1,101 @@
+import { defineOwn, getOwn, isPlainObject } from './merge';
+import { ParseError } from './errors';
+import { splitPath } from './paths';
+
+/**
+ * The key holding the value of a properties key that also has nested keys, e.g. `log4j.appender.A1` when
+ * `log4j.appender.A1.layout` is set as well.
+ */
+export const PROPERTIES_VALUE_KEY = '_value';
+
+const ESCAPES: Record<string, string> = { f: '\f', n: '\n', r: '\r', t: '\t' };
+// A line ending with an odd number of backslashes continues on the next line.
+const CONTINUATION = /(?:^|[^\\])(?:\\\\)*\\$/;
+
+const unescape = (text: string, lineNumber: number): string =>
+    text.replace(/\\(u[\dA-Fa-f]{4}|.?)/gs, (_, escape: string) => {
+        if (!escape.startsWith('u')) return ESCAPES[escape] ?? escape;
+        if (escape.length !== 5) {
+            throw new ParseError(
+                `Invalid unicode escape on line ${lineNumber}.`,
+                { line: lineNumber },
+            );
+        }
+        return String.fromCharCode(parseInt(escape.slice(1), 16));
+    });
+
+// The key ends at the first unescaped separator (`=`, `:` or whitespace).
+const findKeyEnd = (text: string): number => {
+    let index = 0;
+    while (index < text.length && !/[=:\s]/.test(text[index] ?? '')) {
+        if (text[index] === '\\') index++;
+        index++;
+    }
+    return Math.min(index, text.length);
+};
+
+// Java properties are flat, so a key may hold both a value and nested keys. The value is moved to PROPERTIES_VALUE_KEY.
+const assignProperty = (
+    result: Record<string, unknown>,
+    key: string,
+    value: string,
+): void => {
+    const segments = splitPath(key);
+    const last = segments.pop() ?? '';
+    let current = result;
+    for (const segment of segments) {
+        const existing = getOwn(current, segment);
+        const child = isPlainObject(existing)
+            ? existing
+            : existing === undefined
+              ? {}
+              : { [PROPERTIES_VALUE_KEY]: existing };
+        defineOwn(current, segment, child);
+        current = child;
+    }
+    const existing = getOwn(current, last);
+    if (isPlainObject(existing)) {
+        defineOwn(existing, PROPERTIES_VALUE_KEY, value);
+    } else {
+        defineOwn(current, last, value);
+    }
+};
+
+/**
+ * Parses the content of a Java `.properties` file to a nested object. All values are strings.
+ * Dotted keys create nested objects, e.g. `db.host` is set at `db.host`. When a key also has nested keys, its value is
+ * set at `_value`, e.g. `db=a` and `db.host=b` result in `{ db: { _value: 'a', host: 'b' } }`. Supports comments
+ * starting with `#` or `!`, `=`, `:` and whitespace separators, continuation lines, and escape sequences including
+ * `\uXXXX`.
+ * @param content The content of the file.
+ * @returns The nested object.
+ * @throws {ParseError} When a line can't be parsed.
+ */
+export const parseProperties = (content: string): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    const lines = content.replace(/\r\n?/g, '\n').split('\n');
+    for (let index = 0; index < lines.length; index++) {
+        const lineNumber = index + 1;
+        let text = (lines[index] ?? '').trimStart();
+        if (!text || text.startsWith('#') || text.startsWith('!')) continue;
+
+        while (CONTINUATION.test(text) && index < lines.length - 1) {
+            index++;
+            // Leading whitespace of continuation lines is ignored.
+            text = text.slice(0, -1) + (lines[index] ?? '').trimStart();
+        }
+
+        const keyEnd = findKeyEnd(text);
+        const key = unescape(text.slice(0, keyEnd), lineNumber);
+        if (!key)
+            throw new ParseError(`Could not parse line ${lineNumber}.`, {
+                line: lineNumber,
+            });
+        const value = unescape(
+            text.slice(keyEnd).replace(/^\s*[=:]?\s*/, ''),
+            lineNumber,
+        );
+        assignProperty(result, key, value);
+    }
+    return result;
+};
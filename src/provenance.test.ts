@@ -0,0 +1,104 @@
+import {
+    type ConfigLayer,
+    collectProvenance,
+    findLayer,
+    formatOrigin,
+} from './provenance';
+import { describe, expect, it } from '@jest/globals';
+
+describe('provenance', () => {
+    const layers: ConfigLayer[] = [
+        {
+            origin: { type: 'file', path: 'config.yaml', adapter: 'Yaml' },
+            values: { db: { host: 'localhost', port: 1 }, hosts: ['a'] },
+        },
+        {
+            origin: { type: 'object', index: 1 },
+            values: { db: { port: 2 } },
+        },
+        {
+            origin: { type: 'env', variable: 'DB_PORT' },
+            values: { db: { port: '3' } },
+        },
+    ];
+
+    it('should format origins', () => {
+        expect(
+            formatOrigin({
+                type: 'file',
+                path: 'config.yaml',
+                adapter: 'YamlAdapter',
+            }),
+        ).toBe('file config.yaml');
+        expect(formatOrigin({ type: 'default' })).toBe('schema default');
+        expect(formatOrigin({ type: 'set' })).toBe('set()');
+        expect(formatOrigin({ type: 'object', index: 1 })).toBe(
+            'object at source index 1',
+        );
+        expect(formatOrigin({ type: 'env', variable: 'PORT' })).toBe(
+            'env PORT',
+        );
+    });
+
+    it('should find the last layer supplying a value', () => {
+        expect(findLayer(layers, ['db', 'port'])).toEqual({
+            layer: layers[2],
+            value: '3',
+        });
+        expect(findLayer(layers, ['db', 'host'])).toEqual({
+            layer: layers[0],
+            value: 'localhost',
+        });
+        expect(findLayer(layers, ['hosts', 0])).toEqual({
+            layer: layers[0],
+            value: 'a',
+        });
+    });
+
+    it('should fall back to the closest parent for missing values', () => {
+        expect(findLayer(layers, ['db', 'user'])).toEqual({
+            layer: layers[2],
+            value: undefined,
+        });
+        expect(findLayer(layers, ['cache', 'ttl'])).toBeUndefined();
+    });
+
+    it('should collect the origin of every leaf value', () => {
+        const value = {
+            db: { host: 'localhost', port: 3, user: 'admin' },
+            hosts: ['a'],
+            options: {},
+        };
+        expect(collectProvenance(value, layers)).toEqual({
+            'db.host': layers[0]?.origin,
+            'db.port': layers[2]?.origin,
+            'db.user': { type: 'default' },
+            hosts: layers[0]?.origin,
+            options: { type: 'default' },
+        });
+    });
+
+    it('should attribute values dropped by a replaced parent to the schema default', () => {
+        const replaceLayers: ConfigLayer[] = [
+            {
+                origin: { type: 'object', index: 0 },
+                values: { db: { host: 'a', port: 1 } },
+            },
+            {
+                origin: { type: 'object', index: 1 },
+                values: { db: { host: 'b' } },
+            },
+        ];
+        const value = { db: { host: 'b', port: 5432 } };
+        expect(
+            collectProvenance(value, replaceLayers, { db: 'replace' }),
+        ).toEqual({
+            'db.host': { type: 'object', index: 1 },
+            'db.port': { type: 'default' },
+        });
+        expect(collectProvenance(value, replaceLayers)['db.port']).toEqual({
+            type: 'object',
+            index: 0,
+        });
+    });
+});
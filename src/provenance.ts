@@ -0,0 +1,127 @@
+import { type MergeRules, isPlainObject } from './merge';
+import type { SourcePosition } from './codeFrame';
+import { collectLeafPaths } from './paths';
+
+/**
+ * Describes where a configuration value originated from.
+ */
+export type ValueOrigin =
+    | { type: 'default' }
+    | { type: 'file'; path: string; adapter: string }
+    | { type: 'object'; index: number }
+    | { type: 'env'; variable: string }
+    | { type: 'set' };
+
+/**
+ * Values supplied by a single origin, in the order in which they are merged.
+ */
+export type ConfigLayer = {
+    origin: ValueOrigin;
+    values: Record<string, unknown>;
+    // Finds the position of a value in the file the layer was loaded from.
+    locate?: ((path: PropertyKey[]) => SourcePosition | undefined) | undefined;
+};
+
+// Origins mapped by the dot separated path of every leaf value in the configuration.
+export type Provenance = { [path: string]: ValueOrigin };
+
+/**
+ * Formats an origin to a human-readable description.
+ * @param origin The origin to format.
+ * @returns The description of the origin.
+ */
+export const formatOrigin = (origin: ValueOrigin): string => {
+    switch (origin.type) {
+        case 'default':
+            return 'schema default';
+        case 'file':
+            return `file ${origin.path}`;
+        case 'object':
+            return `object at source index ${origin.index}`;
+        case 'env':
+            return `env ${origin.variable}`;
+        case 'set':
+            return 'set()';
+    }
+};
+
+const getIn = (value: unknown, path: PropertyKey[]): unknown => {
+    let current = value;
+    for (const segment of path) {
+        if (!isPlainObject(current) && !Array.isArray(current))
+            return undefined;
+        current = (current as Record<PropertyKey, unknown>)[segment];
+    }
+    return current;
+};
+
+/**
+ * Finds the layer that supplied the value at a path, or the closest parent of that path when the value itself is missing.
+ * Later layers take precedence over earlier layers, as they do when merging.
+ * @param layers The layers, in merge order.
+ * @param path The path of the value.
+ * @returns The layer and the value it supplied at the path, or undefined if no layer supplied the value or any of its parents.
+ */
+export const findLayer = (
+    layers: ConfigLayer[],
+    path: PropertyKey[],
+): { layer: ConfigLayer; value: unknown } | undefined => {
+    for (let length = path.length; length > 0; length--) {
+        const prefix = path.slice(0, length);
+        for (let index = layers.length - 1; index >= 0; index--) {
+            const layer = layers[index];
+            if (layer && getIn(layer.values, prefix) !== undefined) {
+                return { layer, value: getIn(layer.values, path) };
+            }
+        }
+    }
+    return undefined;
+};
+
+// Whether a layer replaced a parent of the path, so earlier layers can't have supplied the value.
+const replacesParent = (
+    values: Record<string, unknown>,
+    path: PropertyKey[],
+    rules: MergeRules,
+): boolean => {
+    for (let length = 1; length < path.length; length++) {
+        const prefix = path.slice(0, length);
+        const parent = getIn(values, prefix);
+        if (parent === undefined) continue;
+        if (!isPlainObject(parent) || rules[prefix.join('.')] === 'replace') {
+            return true;
+        }
+    }
+    return false;
+};
+
+/**
+ * Determines the origin of every leaf value in a configuration.
+ * Arrays are treated as leaf values. Values not supplied by any layer are attributed to the schema default, as are
+ * values that were dropped because a later layer replaced one of their parents.
+ * @param value The parsed configuration.
+ * @param layers The layers the configuration was merged from, in merge order.
+ * @param rules The merge strategies the layers were merged with.
+ * @returns The origins mapped by the dot separated path of every leaf value.
+ */
+export const collectProvenance = (
+    value: unknown,
+    layers: ConfigLayer[],
+    rules: MergeRules = {},
+): Provenance => {
+    const provenance: Provenance = {};
+    for (const path of collectLeafPaths(value)) {
+        let origin: ValueOrigin = { type: 'default' };
+        for (let index = layers.length - 1; index >= 0; index--) {
+            const layer = layers[index];
+            if (!layer) continue;
+            if (getIn(layer.values, path) !== undefined) {
+                origin = layer.origin;
+                break;
+            }
+            if (replacesParent(layer.values, path, rules)) break;
+        }
+        provenance[path.join('.')] = origin;
+    }
+    return provenance;
+};
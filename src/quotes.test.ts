@@ -0,0 +1,17 @@
+import { describe, expect, it } from '@jest/globals';
+import { findClosingQuote, unescapeDoubleQuoted } from './quotes';
+
+describe('quotes', () => {
+    it('should find the closing quote', () => {
+        expect(findClosingQuote('value" rest', '"')).toBe(5);
+        expect(findClosingQuote('va\\"lue"', '"')).toBe(7);
+        expect(findClosingQuote("va\\'lue", "'")).toBe(3);
+        expect(findClosingQuote('value', '"')).toBe(-1);
+    });
+
+    it('should unescape double quoted values', () => {
+        expect(unescapeDoubleQuoted('a\\nb\\tc\\"d\\\\e\\x')).toBe(
+            'a\nb\tc"d\\e\\x',
+        );
+    });
+});
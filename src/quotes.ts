@@ -0,0 +1,26 @@
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t' };
+
+/**
+ * Finds the closing quote of a quoted value. Only double quoted values support escaping the quote.
+ * @param text The text following the opening quote.
+ * @param quote The quote character that opened the value.
+ * @returns The index of the closing quote in the text, or -1 when the value is not closed.
+ */
+export const findClosingQuote = (text: string, quote: string): number => {
+    for (let index = 0; index < text.length; index++) {
+        if (quote === '"' && text[index] === '\\') index++;
+        else if (text[index] === quote) return index;
+    }
+    return -1;
+};
+
+/**
+ * Replaces the escape sequences (`\n`, `\r`, `\t`, `\"` and `\\`) of a double quoted value.
+ * @param text The text between the quotes.
+ * @returns The unescaped text.
+ */
+export const unescapeDoubleQuoted = (text: string): string =>
+    text.replace(
+        /\\([nrt"\\])/g,
+        (_, character: string) => ESCAPES[character] ?? character,
+    );
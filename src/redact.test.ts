@@ -0,0 +1,54 @@
+import {
+    REDACTED,
+    collectSecretValues,
+    isSecretPath,
+    redactMessage,
+    redactValue,
+} from './redact';
+import { describe, expect, it } from '@jest/globals';
+
+describe('redact', () => {
+    it('should detect secret paths and their nested paths', () => {
+        expect(isSecretPath('db.password', ['db.password'])).toBe(true);
+        expect(isSecretPath('db.password.hash', ['db.password'])).toBe(true);
+        expect(isSecretPath('db.passwords', ['db.password'])).toBe(false);
+        expect(isSecretPath('db', ['db.password'])).toBe(false);
+    });
+
+    it('should redact secret values without mutating the original value', () => {
+        const value = { db: { host: 'localhost', password: 'hunter22' } };
+        expect(redactValue(value, ['db.password'])).toEqual({
+            db: { host: 'localhost', password: REDACTED },
+        });
+        expect(value.db.password).toEqual('hunter22');
+    });
+
+    it('should redact a value at a secret path as a whole', () => {
+        expect(redactValue({ user: 'a', key: 'b' }, ['db'], 'db')).toEqual(
+            REDACTED,
+        );
+        expect(redactValue(undefined, ['db'], 'db')).toBeUndefined();
+    });
+
+    it('should collect the secret values', () => {
+        const value = {
+            db: { host: 'localhost', password: 'hunter22' },
+            tokens: ['abcd', 1234],
+        };
+        expect(collectSecretValues(value, ['db.password', 'tokens'])).toEqual([
+            'hunter22',
+            'abcd',
+            '1234',
+        ]);
+    });
+
+    it('should redact secret values in a message', () => {
+        expect(
+            redactMessage("received 'hunter22', expected 'abc'", [
+                'hunter2',
+                'hunter22',
+                'abc',
+            ]),
+        ).toEqual(`received '${REDACTED}', expected 'abc'`);
+    });
+});
@@ -0,0 +1,91 @@
+import { isPlainObject } from './merge';
+
+/**
+ * Replaces secret values in logs, reports and dumps.
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Checks whether the value at a path is secret, because the path or one of its parents is marked as secret.
+ * @param path The dot separated path of the value.
+ * @param secretPaths The dot separated paths marked as secret.
+ * @returns Whether the value is secret.
+ */
+export const isSecretPath = (path: string, secretPaths: string[]): boolean =>
+    secretPaths.some(
+        (secretPath) =>
+            path === secretPath || path.startsWith(`${secretPath}.`),
+    );
+
+/**
+ * Replaces secret values with a placeholder, without mutating the original value.
+ * @param value The value to redact.
+ * @param secretPaths The dot separated paths marked as secret.
+ * @param path The dot separated path of the value.
+ * @returns The redacted value.
+ */
+export const redactValue = (
+    value: unknown,
+    secretPaths: string[],
+    path = '',
+): unknown => {
+    if (value === undefined) return value;
+    if (path && isSecretPath(path, secretPaths)) return REDACTED;
+    if (!isPlainObject(value)) return value;
+    return Object.fromEntries(
+        Object.entries(value).map(([key, child]) => [
+            key,
+            redactValue(child, secretPaths, path ? `${path}.${key}` : key),
+        ]),
+    );
+};
+
+const collectLeafValues = (value: unknown): string[] => {
+    if (typeof value === 'string' || typeof value === 'number') {
+        return [String(value)];
+    }
+    if (!isPlainObject(value) && !Array.isArray(value)) return [];
+    return Object.values(value).flatMap(collectLeafValues);
+};
+
+/**
+ * Collects the secret values in a value, so they can be removed from messages.
+ * @param value The value to search.
+ * @param secretPaths The dot separated paths marked as secret.
+ * @param path The dot separated path of the value.
+ * @returns Every secret string or number, converted to a string.
+ */
+export const collectSecretValues = (
+    value: unknown,
+    secretPaths: string[],
+    path = '',
+): string[] => {
+    if (path && isSecretPath(path, secretPaths)) {
+        return collectLeafValues(value);
+    }
+    if (!isPlainObject(value)) return [];
+    return Object.entries(value).flatMap(([key, child]) =>
+        collectSecretValues(child, secretPaths, path ? `${path}.${key}` : key),
+    );
+};
+
+/**
+ * Replaces every occurrence of the secret values in a message with a placeholder.
+ * Values shorter than 4 characters are ignored, as replacing them would likely mangle unrelated parts of the message.
+ * @param message The message to redact.
+ * @param secretValues The secret values.
+ * @returns The redacted message.
+ */
+export const redactMessage = (
+    message: string,
+    secretValues: string[],
+): string =>
+    secretValues
+        .filter((secretValue) => secretValue.length >= 4)
+        // Replace longer values first, so values containing other values are replaced as a whole.
+        .sort((a, b) => b.length - a.length)
+        .reduce(
+            (redacted, secretValue) =>
+                redacted.split(secretValue).join(REDACTED),
+            message,
+        );